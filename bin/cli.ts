@@ -0,0 +1,1321 @@
+#!/usr/bin/env node
+import { parseArgs, ParseArgsConfig } from "node:util";
+import fs from "fs/promises";
+import {
+  analyzeUsage,
+  arrange,
+  archive,
+  dedupe,
+  DEDUPE_ACTIONS,
+  dedupeAgainst,
+  diffSnapshots,
+  extractArchive,
+  findEmptyFiles,
+  findLargeFiles,
+  findSimilarImages,
+  flatten,
+  formatUsage,
+  LARGE_FILE_ACTIONS,
+  listArchive,
+  listJournals,
+  listSnapshots,
+  loadSnapshot,
+  purgeJournal,
+  restore,
+  retention,
+  revert,
+  snapshot,
+  sync,
+  watchArrange,
+} from "../src";
+import { resolveOptions } from "../utils/config";
+import { CONFLICT_STRATEGIES, TRANSFER_MODES } from "../utils/conflict";
+import { formatSize, parseSize, plural } from "../utils/helper";
+import {
+  ArchiveOptions,
+  ArrangeOptions,
+  ConflictOptions,
+  ConflictRecord,
+  DedupeAction,
+  DedupeOptions,
+  DedupeStrategy,
+  FileError,
+  FindEmptyOptions,
+  FindLargeOptions,
+  FlattenOpts,
+  FmConfig,
+  LargeFileAction,
+  MediaRules,
+  OutputOptions,
+  RetentionPolicy,
+  SimilarImagesOptions,
+  SimilarStrategy,
+  StreamOptions,
+  TransferMode,
+  UsageFormat,
+  UsageOptions,
+} from "../utils/types";
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_PARTIAL = 1; // operation finished but reported file errors
+const EXIT_USAGE = 2; // bad command or flags
+const EXIT_FATAL = 3; // operation could not run (bad path, invalid rules...)
+
+type Flags = Record<
+  string,
+  string | boolean | (string | boolean)[] | undefined
+>;
+type FlagConfig = NonNullable<ParseArgsConfig["options"]>;
+
+interface Command {
+  summary: string;
+  usage: string;
+  /** Names of the positional arguments the command expects. */
+  args: string[];
+  /** Names of positional arguments that may follow `args`. */
+  optional?: string[];
+  flags: FlagConfig;
+  help: string[];
+  run(args: string[], flags: Flags): Promise<{ errors: FileError[] }>;
+}
+
+class UsageError extends Error {}
+
+const commonFlags: FlagConfig = {
+  "dry-run": { type: "boolean", short: "n" },
+  log: { type: "boolean", short: "l" },
+  "no-config": { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+};
+
+const journalFlag: FlagConfig = {
+  "no-journal": { type: "boolean" },
+};
+
+const journalHelp =
+  "    --no-journal         Don't record the run (it can't be reverted)";
+
+const conflictFlags: FlagConfig = {
+  conflict: { type: "string", short: "c" },
+  "rename-pattern": { type: "string" },
+  identical: { type: "boolean" },
+};
+
+const conflictHelp = [
+  "-c, --conflict <mode>    rename | overwrite | skip | keep-newer | keep-larger (default rename)",
+  "    --rename-pattern <p> Suffix for renamed files, must contain {n} (default -({n}))",
+  "    --identical          Count files already at the destination with the same content as moved",
+];
+
+const commonHelp = [
+  "-n, --dry-run            Preview changes without touching any file",
+  "-l, --log                Print every file operation",
+  "    --no-config          Ignore .fmrc / fm.config.json files",
+  "-h, --help               Show this help",
+];
+
+// Unset flags stay undefined so they don't override config files
+const on = (flags: Flags, name: string) =>
+  flags[name] === true ? true : undefined;
+const off = (flags: Flags, name: string) =>
+  flags[name] === true ? false : undefined;
+
+const configured = async <K extends keyof Omit<FmConfig, "root">>(
+  section: K,
+  path: string,
+  flags: Flags,
+  explicit: FmConfig[K]
+) => (flags["no-config"] ? explicit! : resolveOptions(section, path, explicit));
+
+const toNumber = (name: string, value: Flags[string]) => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (typeof value !== "string" || !Number.isFinite(n)) {
+    throw new UsageError(`--${name} expects a number, got '${value}'`);
+  }
+  return n;
+};
+
+const toSize = (name: string, value: Flags[string]) => {
+  if (value === undefined) return undefined;
+  try {
+    if (typeof value !== "string") throw new Error();
+    return parseSize(value);
+  } catch {
+    throw new UsageError(
+      `--${name} expects a size such as 1.5GB, got '${value}'`
+    );
+  }
+};
+
+const oneOf = <T extends string>(
+  name: string,
+  value: Flags[string],
+  allowed: readonly T[]
+): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(
+      `--${name} must be one of ${allowed.join(", ")}, got '${value}'`
+    );
+  }
+  return value as T;
+};
+
+const conflictOptions = (flags: Flags): ConflictOptions => ({
+  conflict: oneOf("conflict", flags.conflict, CONFLICT_STRATEGIES),
+  renamePattern: flags["rename-pattern"] as string | undefined,
+  checkIdentical: on(flags, "identical"),
+});
+
+const toList = (value: Flags[string]) =>
+  value === undefined ? undefined : ([] as string[]).concat(value as string[]);
+
+const filterFlags: FlagConfig = {
+  exclude: { type: "string", multiple: true, short: "x" },
+  "ignore-file": { type: "string" },
+};
+
+const filterHelp = [
+  "-x, --exclude <pattern>  Leave matching files and folders alone, .gitignore",
+  "                         syntax; !pattern re-includes (repeatable)",
+  "    --ignore-file <file> Read more patterns from a .gitignore-style file",
+];
+
+const filterOptions = (flags: Flags) => ({
+  exclude: toList(flags.exclude),
+  ignoreFile: flags["ignore-file"] as string | undefined,
+});
+
+const outputFlags: FlagConfig = {
+  output: { type: "string", short: "o" },
+  mode: { type: "string" },
+};
+
+const outputHelp = [
+  "-o, --output <dir>       Build the result in this folder instead",
+  "    --mode <mode>        move (default) | copy | hardlink; copy and hardlink",
+  "                         leave <dir> untouched",
+];
+
+const outputOptions = (flags: Flags): OutputOptions => ({
+  output: flags.output as string | undefined,
+  mode: oneOf("mode", flags.mode, TRANSFER_MODES),
+});
+
+const MODE_DONE: Record<TransferMode, string> = {
+  move: "moved",
+  copy: "copied",
+  hardlink: "linked",
+};
+
+const progressFlag: FlagConfig = {
+  progress: { type: "boolean" },
+};
+
+const progressHelp =
+  "    --progress           Show how many files and bytes have been scanned";
+
+// Running totals go to stderr so they never mix with the printed results
+const progressOptions = (flags: Flags): StreamOptions =>
+  flags.progress
+    ? {
+        onProgress: ({ root, files, bytes, done }) =>
+          process.stderr.write(
+            `\r${root}: ${files} files, ${formatSize(bytes)}${done ? "\n" : ""}`
+          ),
+      }
+    : {};
+
+// `--rule movies=mp4,mkv --rule books=epub` -> { movies: [...], books: [...] }
+const toRules = (value: Flags[string]): MediaRules | undefined => {
+  const list = toList(value);
+  if (!list) return undefined;
+
+  const rules: Record<string, string[]> = {};
+  for (const item of list) {
+    const [folder, exts] = item.split("=");
+    if (!folder || !exts) {
+      throw new UsageError(`--rule expects 'folder=ext1,ext2', got '${item}'`);
+    }
+    rules[folder] = exts
+      .split(",")
+      .map((e) => e.trim().replace(/^\./, "").toLowerCase())
+      .filter(Boolean);
+  }
+  return rules;
+};
+
+const print = (message: string) => console.log(message);
+
+const printJournal = (journalId?: string) => {
+  if (journalId)
+    print(`Journal ${journalId} (undo with 'fm revert ${journalId}')`);
+};
+
+const printConflicts = (conflicts?: ConflictRecord[]) => {
+  if (!conflicts?.length) return;
+  const counts = new Map<string, number>();
+  conflicts.forEach((c) =>
+    counts.set(c.resolution, (counts.get(c.resolution) ?? 0) + 1)
+  );
+  print(
+    `Conflicts: ${[...counts].map(([what, n]) => `${n} ${what}`).join(", ")}`
+  );
+};
+
+const ACTION_DONE: Record<DedupeAction, string> = {
+  delete: "removed",
+  hardlink: "hard-linked",
+  symlink: "symlinked",
+  reflink: "cloned",
+  quarantine: "quarantined",
+};
+
+const LARGE_ACTION_DONE: Record<LargeFileAction, string> = {
+  archive: "archived",
+  move: "moved",
+  delete: "deleted",
+};
+
+const commands: Record<string, Command> = {
+  arrange: {
+    summary: "Sort files into category folders by extension",
+    usage: "fm arrange <dir> [options]",
+    args: ["dir"],
+    flags: {
+      rule: { type: "string", multiple: true, short: "r" },
+      detect: { type: "boolean" },
+      "group-by": { type: "string" },
+      "date-folder": { type: "string" },
+      recursive: { type: "boolean", short: "R" },
+      depth: { type: "string", short: "d" },
+      ...outputFlags,
+      ...filterFlags,
+      ...conflictFlags,
+      ...journalFlag,
+    },
+    help: [
+      "-r, --rule <dir=ext,...>  Custom folder rule (repeatable)",
+      "    --detect             Use file content when the extension is missing or wrong",
+      "    --group-by <mode>    type (default) or date: Photos/Videos by capture date",
+      "    --date-folder <tpl>  Folder template for --group-by date (default {yyyy}/{yyyy}-{mm}-{dd})",
+      "-R, --recursive          Also arrange files in sub-folders",
+      "-d, --depth <n>          With --recursive, levels to descend (0 = unlimited)",
+      ...outputHelp,
+      ...filterHelp,
+      ...conflictHelp,
+      journalHelp,
+    ],
+    async run([path], flags) {
+      const options: ArrangeOptions = await configured("arrange", path, flags, {
+        rules: toRules(flags.rule),
+        detectType: on(flags, "detect"),
+        groupBy: oneOf("group-by", flags["group-by"], [
+          "type",
+          "date",
+        ] as const),
+        dateFolder: flags["date-folder"] as string | undefined,
+        recursive: on(flags, "recursive"),
+        depth: toNumber("depth", flags.depth),
+        ...outputOptions(flags),
+        ...filterOptions(flags),
+        dryRun: on(flags, "dry-run"),
+        log: on(flags, "log"),
+        ...conflictOptions(flags),
+        journal: off(flags, "no-journal"),
+      });
+      const stats = await arrange(path, options);
+      stats.mismatches?.forEach((m) =>
+        print(
+          `${m.file}: ${m.ext ? `'.${m.ext}'` : "no extension"}, content is ${
+            m.detected
+          }`
+        )
+      );
+      print(
+        `Scanned ${stats.scanned}, ${MODE_DONE[options.mode ?? "move"]} ${
+          stats.moved
+        }, skipped ${stats.skipped}`
+      );
+      printConflicts(stats.conflicts);
+      printJournal(stats.journalId);
+      return stats;
+    },
+  },
+
+  watch: {
+    summary: "Keep a folder arranged as new files arrive",
+    usage: "fm watch <dir> [options]",
+    args: ["dir"],
+    flags: {
+      rule: { type: "string", multiple: true, short: "r" },
+      detect: { type: "boolean" },
+      "group-by": { type: "string" },
+      "date-folder": { type: "string" },
+      settle: { type: "string" },
+      initial: { type: "boolean" },
+      ...filterFlags,
+      ...conflictFlags,
+      ...journalFlag,
+    },
+    help: [
+      "-r, --rule <dir=ext,...>  Custom folder rule (repeatable)",
+      "    --detect             Use file content when the extension is missing or wrong",
+      "    --group-by <mode>    type (default) or date: Photos/Videos by capture date",
+      "    --date-folder <tpl>  Folder template for --group-by date (default {yyyy}/{yyyy}-{mm}-{dd})",
+      "    --settle <ms>        Wait until a file is unchanged this long (default 1000)",
+      "    --initial            Arrange files already in the folder first",
+      ...filterHelp,
+      ...conflictHelp,
+      journalHelp,
+    ],
+    async run([path], flags) {
+      const options: ArrangeOptions = await configured("arrange", path, flags, {
+        rules: toRules(flags.rule),
+        detectType: on(flags, "detect"),
+        groupBy: oneOf("group-by", flags["group-by"], [
+          "type",
+          "date",
+        ] as const),
+        dateFolder: flags["date-folder"] as string | undefined,
+        ...filterOptions(flags),
+        dryRun: on(flags, "dry-run"),
+        log: on(flags, "log") ?? true,
+        ...conflictOptions(flags),
+        journal: off(flags, "no-journal"),
+      });
+      if (options.output || (options.mode ?? "move") !== "move") {
+        throw new UsageError(
+          "watch moves files in place; output and mode only apply to arrange"
+        );
+      }
+      const watcher = await watchArrange(path, {
+        ...options,
+        settleMs: toNumber("settle", flags.settle),
+        initial: on(flags, "initial"),
+      });
+      print(`Watching ${path} (Ctrl+C to stop)`);
+
+      await new Promise<void>((resolve) => {
+        process.once("SIGINT", resolve);
+        process.once("SIGTERM", resolve);
+      });
+      await watcher.close();
+
+      const { stats } = watcher;
+      print(
+        `Scanned ${stats.scanned}, moved ${stats.moved}, skipped ${stats.skipped}`
+      );
+      printConflicts(stats.conflicts);
+      printJournal(stats.journalId);
+      return stats;
+    },
+  },
+
+  flatten: {
+    summary: "Move nested files up into the root folder",
+    usage: "fm flatten <dir> [options]",
+    args: ["dir"],
+    flags: {
+      depth: { type: "string", short: "d" },
+      "keep-empty": { type: "boolean" },
+      ...outputFlags,
+      ...filterFlags,
+      ...progressFlag,
+      ...conflictFlags,
+      ...journalFlag,
+    },
+    help: [
+      "-d, --depth <n>          Maximum depth to collect from (0 = unlimited)",
+      "    --keep-empty         Keep empty folders after flattening",
+      ...outputHelp,
+      ...filterHelp,
+      progressHelp,
+      ...conflictHelp,
+      journalHelp,
+    ],
+    async run([path], flags) {
+      const options: FlattenOpts = await configured("flatten", path, flags, {
+        depth: toNumber("depth", flags.depth),
+        ...outputOptions(flags),
+        ...filterOptions(flags),
+        ...conflictOptions(flags),
+        deleteEmpty: off(flags, "keep-empty"),
+        dryRun: on(flags, "dry-run"),
+        log: on(flags, "log"),
+        journal: off(flags, "no-journal"),
+      });
+      const stats = await flatten(path, {
+        ...options,
+        ...progressOptions(flags),
+      });
+      print(
+        `Scanned ${stats.scanned}, ${MODE_DONE[options.mode ?? "move"]} ${
+          stats.moved
+        }, skipped ${stats.skipped}`
+      );
+      printConflicts(stats.conflicts);
+      printJournal(stats.journalId);
+      return stats;
+    },
+  },
+
+  dedupe: {
+    summary: "Remove or link duplicate files, keeping one copy per content",
+    usage: "fm dedupe <dir> [options]",
+    args: ["dir"],
+    flags: {
+      strategy: { type: "string", short: "s" },
+      canonical: { type: "string" },
+      ignore: { type: "string", multiple: true, short: "i" },
+      ...filterFlags,
+      ...progressFlag,
+      "delete-empty": { type: "boolean" },
+      algorithm: { type: "string" },
+      concurrency: { type: "string", short: "j" },
+      cache: { type: "string" },
+      action: { type: "string", short: "a" },
+      quarantine: { type: "string" },
+      against: { type: "string", multiple: true, short: "r" },
+      ...journalFlag,
+    },
+    help: [
+      "-s, --strategy <name>    first | oldest | newest | shortest-path |",
+      "                         longest-path | canonical",
+      "    --canonical <path>   Prefer copies under this path",
+      ...filterHelp,
+      progressHelp,
+      "-i, --ignore <pattern>   Same as --exclude",
+      "    --delete-empty       Remove folders left empty afterwards",
+      "    --algorithm <name>   Hash algorithm, e.g. sha1, md5 (default sha256)",
+      "-j, --concurrency <n>    Files hashed at the same time (default 4)",
+      "    --cache <file>       Keep hashes in this file between runs",
+      "-a, --action <name>      delete (default) | hardlink | symlink | reflink |",
+      "                         quarantine",
+      "    --quarantine <dir>   Quarantine folder (default <dir>/.fm/quarantine)",
+      "-r, --against <dir>      Only remove files that also exist in this reference",
+      "                         tree, which is never changed (repeatable)",
+      journalHelp,
+    ],
+    async run([path], flags) {
+      const options: DedupeOptions = await configured("dedupe", path, flags, {
+        strategy: oneOf<DedupeStrategy>("strategy", flags.strategy, [
+          "canonical",
+          "oldest",
+          "newest",
+          "shortest-path",
+          "longest-path",
+          "first",
+        ]),
+        canonicalPath: flags.canonical as string | undefined,
+        ignorePatterns: toList(flags.ignore),
+        ...filterOptions(flags),
+        deleteEmpty: on(flags, "delete-empty"),
+        algorithm: flags.algorithm as string | undefined,
+        concurrency: toNumber("concurrency", flags.concurrency),
+        cacheFile: flags.cache as string | undefined,
+        action: oneOf("action", flags.action, DEDUPE_ACTIONS),
+        quarantinePath: flags.quarantine as string | undefined,
+        dryRun: on(flags, "dry-run"),
+        log: on(flags, "log"),
+        journal: off(flags, "no-journal"),
+      });
+      Object.assign(options, progressOptions(flags));
+      const references = toList(flags.against);
+      const result = references
+        ? await dedupeAgainst(path, references, options)
+        : await dedupe(path, options);
+      print(
+        `Scanned ${result.scannedFiles}, ${result.duplicateGroups} duplicate groups, ` +
+          `${result.filesDeleted} files ${
+            ACTION_DONE[options.action ?? "delete"]
+          } (${formatSize(result.spaceSaved)})`
+      );
+      const { metrics } = result;
+      print(
+        `Hashed ${formatSize(metrics.bytesHashed)} in ${(
+          metrics.durationMs / 1000
+        ).toFixed(1)}s (${metrics.partialHashes} partial, ${
+          metrics.fullHashes
+        } full; ${formatSize(metrics.bytesSkipped)} not read)` +
+          (metrics.cacheHits ? `, ${metrics.cacheHits} from cache` : "")
+      );
+      printJournal(result.journalId);
+      return result;
+    },
+  },
+
+  similar: {
+    summary:
+      "Find images that look alike (resized, re-saved) without changing them",
+    usage: "fm similar <dir> [options]",
+    args: ["dir"],
+    flags: {
+      threshold: { type: "string", short: "t" },
+      strategy: { type: "string", short: "s" },
+      canonical: { type: "string" },
+      ...filterFlags,
+      concurrency: { type: "string", short: "j" },
+    },
+    help: [
+      "-t, --threshold <bits>   Max differing hash bits, 0-64 (default 10)",
+      "-s, --strategy <name>    Image to keep: highest-resolution | first | oldest |",
+      "                         newest | shortest-path | longest-path | canonical",
+      "    --canonical <path>   Prefer images under this path",
+      ...filterHelp,
+      "-j, --concurrency <n>    Images decoded at the same time (default 4)",
+    ],
+    async run([path], flags) {
+      const options: SimilarImagesOptions = await configured(
+        "similar",
+        path,
+        flags,
+        {
+          threshold: toNumber("threshold", flags.threshold),
+          strategy: oneOf<SimilarStrategy>("strategy", flags.strategy, [
+            "highest-resolution",
+            "canonical",
+            "oldest",
+            "newest",
+            "shortest-path",
+            "longest-path",
+            "first",
+          ]),
+          canonicalPath: flags.canonical as string | undefined,
+          ...filterOptions(flags),
+          concurrency: toNumber("concurrency", flags.concurrency),
+          log: on(flags, "log"),
+        }
+      );
+      const result = await findSimilarImages(path, options);
+      for (const { canonical, duplicates } of result.groups) {
+        print(`${canonical.fullPath} (${canonical.width}x${canonical.height})`);
+        duplicates.forEach((d) =>
+          print(
+            `  ${Math.round(d.similarity * 100)}%  ${d.fullPath} (${d.width}x${
+              d.height
+            })`
+          )
+        );
+      }
+      print(
+        `Scanned ${result.scannedFiles} images, ${result.duplicateGroups} groups of similar images ` +
+          `(${formatSize(result.spaceSaved)} in copies)` +
+          (result.unsupported.length
+            ? `, ${result.unsupported.length} in unsupported formats`
+            : "")
+      );
+      return result;
+    },
+  },
+
+  empty: {
+    summary: "Find (and optionally delete) zero-byte files",
+    usage: "fm empty <dir> [options]",
+    args: ["dir"],
+    flags: {
+      delete: { type: "boolean" },
+      list: { type: "boolean" },
+      ...filterFlags,
+      ...progressFlag,
+      ...journalFlag,
+    },
+    help: [
+      "    --delete             Delete the empty files that were found",
+      "    --list               Print every empty file",
+      ...filterHelp,
+      progressHelp,
+      journalHelp,
+    ],
+    async run([path], flags) {
+      const options: FindEmptyOptions = await configured("empty", path, flags, {
+        deleteEmpty: on(flags, "delete"),
+        getFiles: on(flags, "list"),
+        ...filterOptions(flags),
+        // findEmptyFiles defaults to a dry run; --delete means delete
+        dryRun: on(flags, "dry-run") ?? off(flags, "delete"),
+        log: on(flags, "log"),
+        journal: off(flags, "no-journal"),
+      });
+      const result = await findEmptyFiles(path, {
+        ...options,
+        ...progressOptions(flags),
+      });
+      result.files.forEach((f) => print(f.fullPath));
+      print(
+        `Scanned ${result.scanned}, ${result.empty} empty, ${result.deleted} deleted`
+      );
+      printJournal(result.journalId);
+      return result;
+    },
+  },
+
+  large: {
+    summary: "List (and optionally archive, move or delete) the largest files",
+    usage: "fm large <dir> [options]",
+    args: ["dir"],
+    flags: {
+      "min-size": { type: "string", short: "m" },
+      "max-size": { type: "string" },
+      limit: { type: "string", short: "k" },
+      ext: { type: "string", multiple: true, short: "e" },
+      category: { type: "string", multiple: true },
+      "older-than": { type: "string" },
+      "newer-than": { type: "string" },
+      by: { type: "string" },
+      "by-dir": { type: "boolean" },
+      action: { type: "string", short: "a" },
+      to: { type: "string", short: "t" },
+      ...filterFlags,
+      ...progressFlag,
+      ...conflictFlags,
+      ...journalFlag,
+    },
+    help: [
+      "-m, --min-size <size>    Minimum size, e.g. 1.5GB; a bare number is MB",
+      "                         (default 500)",
+      "    --max-size <size>    Maximum size",
+      "-k, --limit <n>          Number of files to show (default 10)",
+      "-e, --ext <ext>          Only files with this extension (repeatable)",
+      "    --category <name>    Only files of this category, e.g. videos (repeatable)",
+      "    --older-than <days>  Only files not modified for this many days",
+      "    --newer-than <days>  Only files modified within this many days",
+      "    --by <time>          Age by mtime (default), atime or birthtime",
+      "    --by-dir             Also total the matches per folder",
+      "-a, --action <name>      archive | move | delete the files shown",
+      "-t, --to <dir>           Destination for archive and move",
+      ...filterHelp,
+      progressHelp,
+      ...conflictHelp,
+      journalHelp,
+    ],
+    async run([path], flags) {
+      // Plain numbers were always megabytes
+      const minSize = flags["min-size"];
+      const options: FindLargeOptions = await configured("large", path, flags, {
+        minSize: toSize(
+          "min-size",
+          typeof minSize === "string" && /^\d+(\.\d+)?$/.test(minSize)
+            ? `${minSize}MB`
+            : minSize
+        ),
+        maxSize: toSize("max-size", flags["max-size"]),
+        limit: toNumber("limit", flags.limit),
+        ext: toList(flags.ext),
+        categories: toList(flags.category),
+        olderThanDays: toNumber("older-than", flags["older-than"]),
+        newerThanDays: toNumber("newer-than", flags["newer-than"]),
+        criterion: oneOf("by", flags.by, [
+          "mtime",
+          "atime",
+          "birthtime",
+        ] as const),
+        groupBy: on(flags, "by-dir") ? "dir" : undefined,
+        action: oneOf("action", flags.action, LARGE_FILE_ACTIONS),
+        dest: flags.to as string | undefined,
+        ...filterOptions(flags),
+        ...conflictOptions(flags),
+        dryRun: on(flags, "dry-run"),
+        log: on(flags, "log"),
+        journal: off(flags, "no-journal"),
+      });
+      const result = await findLargeFiles(path, {
+        ...options,
+        ...progressOptions(flags),
+      });
+      result.filesPath.forEach((f) => print(`${f.sizeMB}\t${f.path}`));
+      if (result.groups) {
+        print("By folder:");
+        result.groups.forEach((g) =>
+          print(`${g.sizeMB}\t${g.files}\t${g.path}`)
+        );
+      }
+      print(
+        `${plural(result.matched, "file")} matched ` +
+          `(${formatSize(result.matchedBytes)})` +
+          (options.action
+            ? `, ${result.processed} ${LARGE_ACTION_DONE[options.action]}`
+            : "")
+      );
+      printConflicts(result.conflicts);
+      printJournal(result.journalId);
+      return result;
+    },
+  },
+
+  usage: {
+    summary: "Show where the space goes: folder tree, categories, extensions",
+    usage: "fm usage <dir> [options]",
+    args: ["dir"],
+    flags: {
+      format: { type: "string", short: "f" },
+      depth: { type: "string", short: "d" },
+      limit: { type: "string", short: "k" },
+      top: { type: "string" },
+      output: { type: "string", short: "o" },
+      ...filterFlags,
+      ...progressFlag,
+    },
+    help: [
+      "-f, --format <name>      text (default) | json | html",
+      "-d, --depth <n>          Folder levels to expand (default 3)",
+      "-k, --limit <n>          Rows per folder and per table (default 10)",
+      "    --top <n>            Largest folders to list (default 10)",
+      "-o, --output <file>      Write the report to a file instead of stdout",
+      ...filterHelp,
+      progressHelp,
+    ],
+    async run([path], flags) {
+      const options: UsageOptions = await configured("usage", path, flags, {
+        top: toNumber("top", flags.top),
+        ...filterOptions(flags),
+      });
+      const format = oneOf<UsageFormat>("format", flags.format, [
+        "text",
+        "json",
+        "html",
+      ]);
+      const report = await analyzeUsage(path, {
+        ...options,
+        ...progressOptions(flags),
+      });
+      const output = formatUsage(report, format, {
+        depth: toNumber("depth", flags.depth),
+        limit: toNumber("limit", flags.limit),
+      });
+      if (typeof flags.output === "string") {
+        await fs.writeFile(flags.output, output);
+        print(`Wrote ${flags.output}`);
+      } else {
+        print(output);
+      }
+      return report;
+    },
+  },
+
+  snapshot: {
+    summary: "Record the files of a tree to compare with later",
+    usage: "fm snapshot <dir> [options]",
+    args: ["dir"],
+    flags: {
+      output: { type: "string", short: "o" },
+      hash: { type: "boolean" },
+      algorithm: { type: "string" },
+      concurrency: { type: "string", short: "j" },
+      ...filterFlags,
+      ...progressFlag,
+    },
+    help: [
+      "-o, --output <file>      Where to write it (default <dir>/.fm/snapshots/)",
+      "    --hash               Record content hashes, so moves can be detected",
+      "    --algorithm <name>   Hash algorithm, e.g. sha1, md5 (default sha256)",
+      "-j, --concurrency <n>    Files hashed at the same time (default 4)",
+      ...filterHelp,
+      progressHelp,
+    ],
+    async run([path], flags) {
+      // Reuse the hashes of the last snapshot for files that haven't changed
+      const [previous] = (await listSnapshots(path)).slice(-1);
+      const result = await snapshot(path, {
+        output: flags.output as string | undefined,
+        hash: on(flags, "hash"),
+        algorithm: flags.algorithm as string | undefined,
+        concurrency: toNumber("concurrency", flags.concurrency),
+        previous: flags.hash ? previous : undefined,
+        ...filterOptions(flags),
+        ...progressOptions(flags),
+        log: on(flags, "log"),
+      });
+      print(
+        `Recorded ${result.snapshot.files.length} files in ${result.file}` +
+          (result.reused ? ` (${result.reused} hashes reused)` : "")
+      );
+      return result;
+    },
+  },
+
+  diff: {
+    summary: "Show what changed between two snapshots, or since the last one",
+    usage: "fm diff <snapshot|dir> [snapshot|dir] [options]",
+    args: ["old"],
+    optional: ["new"],
+    flags: {
+      list: { type: "boolean" },
+    },
+    help: [
+      "    <old>                A snapshot file, or a folder for its latest one",
+      "    [new]                A snapshot file, or a folder as it is now",
+      "                         (default: the folder of <old> as it is now)",
+      "    --list               Print every changed file, not just the totals",
+    ],
+    async run([old, current], flags) {
+      const latest = async (dir: string) => {
+        const [file] = (await listSnapshots(dir)).slice(-1);
+        if (!file) throw new Error(`No snapshots of '${dir}' yet`);
+        return file;
+      };
+      const isDir = (path: string) =>
+        fs.stat(path).then(
+          (s) => s.isDirectory(),
+          () => false
+        );
+
+      const before = await loadSnapshot(
+        (await isDir(old)) ? await latest(old) : old
+      );
+      const root = current ?? before.root;
+      const after = (await isDir(root))
+        ? (
+            await snapshot(root, {
+              output: false,
+              previous: before,
+              log: on(flags, "log"),
+            })
+          ).snapshot
+        : await loadSnapshot(root);
+      const diff = await diffSnapshots(before, after);
+
+      if (flags.list) {
+        diff.added.forEach((e) => print(`+ ${e.path}`));
+        diff.removed.forEach((e) => print(`- ${e.path}`));
+        diff.grown.forEach((c) =>
+          print(`> ${c.path} (+${formatSize(c.sizeDelta)})`)
+        );
+        diff.modified.forEach((c) =>
+          print(
+            `~ ${c.path}` +
+              (c.sizeDelta ? ` (-${formatSize(-c.sizeDelta)})` : "")
+          )
+        );
+        diff.moved.forEach((m) => print(`→ ${m.from} -> ${m.to}`));
+      }
+      const delta = `${diff.sizeDelta < 0 ? "-" : "+"}${formatSize(
+        Math.abs(diff.sizeDelta)
+      )}`;
+      print(
+        `${diff.added.length} added, ${diff.removed.length} removed, ` +
+          `${diff.grown.length} grown, ${diff.modified.length} modified, ` +
+          `${diff.moved.length} moved, ${diff.unchanged} unchanged (${delta})`
+      );
+      return { errors: [] };
+    },
+  },
+
+  sync: {
+    summary: "Bring a target folder up to date with a source folder",
+    usage: "fm sync <source> <target> [options]",
+    args: ["source", "target"],
+    flags: {
+      delete: { type: "boolean", short: "d" },
+      checksum: { type: "boolean" },
+      algorithm: { type: "string" },
+      conflict: { type: "string", short: "c" },
+      "rename-pattern": { type: "string" },
+      ...filterFlags,
+      ...progressFlag,
+      ...journalFlag,
+    },
+    help: [
+      "-d, --delete             Remove target files the source doesn't have",
+      "    --checksum           Compare content instead of size and mtime",
+      "    --algorithm <name>   Hash algorithm for --checksum (default sha256)",
+      "-c, --conflict <mode>    For target files that differ: overwrite (default) |",
+      "                         keep-newer | keep-larger | skip | rename",
+      "    --rename-pattern <p> Suffix for renamed files, must contain {n} (default -({n}))",
+      ...filterHelp,
+      progressHelp,
+      journalHelp,
+    ],
+    async run([source, target], flags) {
+      const options = await configured("sync", source, flags, {
+        delete: on(flags, "delete"),
+        checksum: on(flags, "checksum"),
+        algorithm: flags.algorithm as string | undefined,
+        conflict: oneOf("conflict", flags.conflict, CONFLICT_STRATEGIES),
+        renamePattern: flags["rename-pattern"] as string | undefined,
+        ...filterOptions(flags),
+        dryRun: on(flags, "dry-run"),
+        log: on(flags, "log"),
+        journal: off(flags, "no-journal"),
+      });
+      const stats = await sync(source, target, {
+        ...options,
+        ...progressOptions(flags),
+      });
+      print(
+        `${stats.added} added, ${stats.updated} updated, ` +
+          `${stats.deleted} deleted, ${stats.unchanged} unchanged ` +
+          `(${formatSize(stats.bytesCopied)} copied)`
+      );
+      printJournal(stats.journalId);
+      return stats;
+    },
+  },
+
+  archive: {
+    summary: "Move files older than N days into an archive folder",
+    usage: "fm archive <dir> --to <archive> --days <n> [options]",
+    args: ["dir"],
+    flags: {
+      to: { type: "string", short: "t" },
+      days: { type: "string", short: "d" },
+      preserve: { type: "boolean", short: "p" },
+      format: { type: "string", short: "f" },
+      by: { type: "string" },
+      "min-size": { type: "string" },
+      "max-size": { type: "string" },
+      include: { type: "string", multiple: true, short: "i" },
+      ...filterFlags,
+      ...progressFlag,
+      "keep-newest": { type: "string" },
+      ...conflictFlags,
+      ...journalFlag,
+    },
+    help: [
+      "-t, --to <dir>           Archive destination (required)",
+      "-d, --days <n>           Archive files not modified for n days (required)",
+      "-p, --preserve           Keep the folder structure inside the archive",
+      "-f, --format <fmt>       directory (default), zip, tar or tar.gz",
+      "    --by <time>          Age by mtime (default), atime or birthtime",
+      "    --min-size <size>    Only archive files at least this large (e.g. 10MB)",
+      "    --max-size <size>    Only archive files at most this large",
+      "-i, --include <glob>     Only archive matching files (repeatable)",
+      ...filterHelp,
+      progressHelp,
+      "    --keep-newest <n>    Leave the n newest files of every folder in place",
+      ...conflictHelp,
+      journalHelp,
+    ],
+    async run([path], flags) {
+      const { archivePath, durationDays, ...rest } = await configured(
+        "archive",
+        path,
+        flags,
+        {
+          archivePath: flags.to as string | undefined,
+          durationDays: toNumber("days", flags.days),
+          preserveStructure: on(flags, "preserve"),
+          format: oneOf("format", flags.format, [
+            "directory",
+            "zip",
+            "tar",
+            "tar.gz",
+          ] as const),
+          criterion: oneOf("by", flags.by, [
+            "mtime",
+            "atime",
+            "birthtime",
+          ] as const),
+          minSize: flags["min-size"] as string | undefined,
+          maxSize: flags["max-size"] as string | undefined,
+          include: toList(flags.include),
+          ...filterOptions(flags),
+          keepNewest: toNumber("keep-newest", flags["keep-newest"]),
+          dryRun: on(flags, "dry-run"),
+          log: on(flags, "log"),
+          ...conflictOptions(flags),
+          journal: off(flags, "no-journal"),
+        }
+      );
+      if (!archivePath) throw new UsageError("--to is required");
+      if (durationDays === undefined)
+        throw new UsageError("--days is required");
+
+      const options: ArchiveOptions = { ...rest, archivePath, durationDays };
+      const result = await archive(path, {
+        ...options,
+        ...progressOptions(flags),
+      });
+      print(
+        `Scanned ${result.scanned}, archived ${result.archived} (${result.archivedSize})`
+      );
+      if (result.container) print(`Container ${result.container}`);
+      printConflicts(result.conflicts);
+      printJournal(result.journalId);
+      return result;
+    },
+  },
+
+  restore: {
+    summary: "Move archived files back to where they came from",
+    usage: "fm restore <archive> [options]",
+    args: ["archive"],
+    flags: {
+      include: { type: "string", multiple: true, short: "i" },
+      ...conflictFlags,
+      ...journalFlag,
+    },
+    help: [
+      "-i, --include <glob>     Only restore matching paths inside the archive (repeatable)",
+      ...conflictHelp,
+      journalHelp,
+    ],
+    async run([archivePath], flags) {
+      const result = await restore(archivePath, {
+        include: toList(flags.include),
+        dryRun: on(flags, "dry-run"),
+        log: on(flags, "log"),
+        ...conflictOptions(flags),
+        journal: off(flags, "no-journal"),
+      });
+      print(
+        `Restored ${result.restored} of ${result.scanned}, skipped ${result.skipped}`
+      );
+      printConflicts(result.conflicts);
+      printJournal(result.journalId);
+      return result;
+    },
+  },
+
+  retention: {
+    summary: "Rotate dated files, keeping daily/weekly/monthly/yearly copies",
+    usage:
+      "fm retention <dir> [--daily n] [--weekly n] [--monthly n] [options]",
+    args: ["dir"],
+    flags: {
+      daily: { type: "string" },
+      weekly: { type: "string" },
+      monthly: { type: "string" },
+      yearly: { type: "string" },
+      "keep-last": { type: "string" },
+      "date-from": { type: "string" },
+      include: { type: "string", multiple: true, short: "i" },
+      ...filterFlags,
+      ...journalFlag,
+    },
+    help: [
+      "    --daily <n>          Keep the newest file of each day for n days",
+      "    --weekly <n>         Keep the newest file of each week for n weeks",
+      "    --monthly <n>        Keep the newest file of each month for n months",
+      "    --yearly <n>         Keep the newest file of each year for n years",
+      "    --keep-last <n>      Always keep the n newest files of each folder",
+      "    --date-from <src>    mtime (default) or name (e.g. db-2024-05-01.sql)",
+      "-i, --include <glob>     Only rotate matching files (repeatable)",
+      ...filterHelp,
+      journalHelp,
+    ],
+    async run([path], flags) {
+      const policy: RetentionPolicy = await configured(
+        "retention",
+        path,
+        flags,
+        {
+          daily: toNumber("daily", flags.daily),
+          weekly: toNumber("weekly", flags.weekly),
+          monthly: toNumber("monthly", flags.monthly),
+          yearly: toNumber("yearly", flags.yearly),
+          keepLast: toNumber("keep-last", flags["keep-last"]),
+          dateFrom: oneOf("date-from", flags["date-from"], [
+            "mtime",
+            "name",
+          ] as const),
+          include: toList(flags.include),
+          ...filterOptions(flags),
+          dryRun: on(flags, "dry-run"),
+          log: on(flags, "log"),
+          journal: off(flags, "no-journal"),
+        }
+      );
+      const result = await retention(path, policy);
+      print(
+        `Scanned ${result.scanned}, kept ${result.kept}, deleted ${result.deleted} (${result.deletedSize})`
+      );
+      printJournal(result.journalId);
+      return result;
+    },
+  },
+
+  list: {
+    summary: "List the files in a zip, tar or tar.gz archive",
+    usage: "fm list <archive>",
+    args: ["archive"],
+    flags: {},
+    help: [],
+    async run([file]) {
+      const entries = await listArchive(file);
+      for (const e of entries) {
+        print(`${formatSize(e.size)}\t${e.mtime.toISOString()}\t${e.path}`);
+      }
+      print(`${entries.length} files`);
+      return { errors: [] };
+    },
+  },
+
+  extract: {
+    summary: "Extract a zip, tar or tar.gz archive into a folder",
+    usage: "fm extract <archive> <dest> [options]",
+    args: ["archive", "dest"],
+    flags: {
+      include: { type: "string", multiple: true, short: "i" },
+      overwrite: { type: "boolean" },
+    },
+    help: [
+      "-i, --include <glob>     Only extract matching paths (repeatable)",
+      "    --overwrite          Replace existing files instead of skipping them",
+    ],
+    async run([file, dest], flags) {
+      const result = await extractArchive(file, dest, {
+        include: toList(flags.include),
+        overwrite: on(flags, "overwrite"),
+        dryRun: on(flags, "dry-run"),
+        log: on(flags, "log"),
+      });
+      print(`Extracted ${result.extracted}, skipped ${result.skipped}`);
+      return result;
+    },
+  },
+
+  revert: {
+    summary: "Undo a previous run using its journal",
+    usage: "fm revert <journal-id> [options]",
+    args: ["journal-id"],
+    flags: {},
+    help: [],
+    async run([id], flags) {
+      const stats = await revert(id, {
+        dryRun: flags["dry-run"] === true,
+        log: flags.log === true,
+      });
+      print(
+        `Restored ${stats.moved} of ${stats.scanned}, skipped ${stats.skipped}`
+      );
+      return stats;
+    },
+  },
+
+  journals: {
+    summary: "List recorded runs that can be reverted",
+    usage: "fm journals",
+    args: [],
+    flags: {},
+    help: [],
+    async run() {
+      const journals = await listJournals();
+      if (journals.length === 0) print("No journals recorded");
+      for (const j of journals) {
+        const state = j.reverted ? "reverted" : `${j.entries} entries`;
+        print(`${j.id}\t${j.createdAt}\t${state}\t${j.root}`);
+      }
+      return { errors: [] };
+    },
+  },
+
+  purge: {
+    summary: "Permanently delete a journal and the files it staged",
+    usage: "fm purge <journal-id>",
+    args: ["journal-id"],
+    flags: {},
+    help: [],
+    async run([id], flags) {
+      if (flags["dry-run"]) {
+        print(`Would purge journal ${id}`);
+        return { errors: [] };
+      }
+      const removed = await purgeJournal(id);
+      print(`Purged journal ${id} (${removed} staged files removed)`);
+      return { errors: [] };
+    },
+  },
+};
+
+function mainHelp() {
+  const width = Math.max(...Object.keys(commands).map((c) => c.length));
+  return [
+    "Usage: fm <command> [args] [options]",
+    "",
+    "Commands:",
+    ...Object.entries(commands).map(
+      ([name, cmd]) => `  ${name.padEnd(width)}  ${cmd.summary}`
+    ),
+    "",
+    "Run 'fm <command> --help' for command options.",
+    "",
+    "Exit codes:",
+    `  ${EXIT_OK}  success`,
+    `  ${EXIT_PARTIAL}  finished, but some files could not be processed`,
+    `  ${EXIT_USAGE}  invalid command or options`,
+    `  ${EXIT_FATAL}  operation failed`,
+  ].join("\n");
+}
+
+function commandHelp(name: string, cmd: Command) {
+  return [
+    `Usage: ${cmd.usage}`,
+    "",
+    cmd.summary,
+    "",
+    "Options:",
+    ...[...cmd.help, ...commonHelp].map((line) => `  ${line}`),
+  ].join("\n");
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (!name || name === "--help" || name === "-h" || name === "help") {
+    print(mainHelp());
+    return name ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const cmd = commands[name];
+  if (!cmd) {
+    console.error(`Unknown command '${name}'\n\n${mainHelp()}`);
+    return EXIT_USAGE;
+  }
+
+  let flags: Flags;
+  let positionals: string[];
+  try {
+    ({ values: flags, positionals } = parseArgs({
+      args: rest,
+      options: { ...commonFlags, ...cmd.flags },
+      allowPositionals: true,
+    }));
+  } catch (e) {
+    console.error(`${(e as Error).message}\n\n${commandHelp(name, cmd)}`);
+    return EXIT_USAGE;
+  }
+
+  if (flags.help) {
+    print(commandHelp(name, cmd));
+    return EXIT_OK;
+  }
+
+  const optional = cmd.optional ?? [];
+  if (
+    positionals.length < cmd.args.length ||
+    positionals.length > cmd.args.length + optional.length
+  ) {
+    const expected =
+      [...cmd.args.map((a) => `<${a}>`), ...optional.map((a) => `[${a}]`)].join(
+        " "
+      ) || "no arguments";
+    console.error(`Expected ${expected}\n\n${commandHelp(name, cmd)}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    const { errors } = await cmd.run(positionals, flags);
+    if (errors.length > 0) {
+      console.error(`${errors.length} file(s) failed:`);
+      errors.forEach((e) => console.error(`  ${e.file}: ${e.error}`));
+      return EXIT_PARTIAL;
+    }
+    return EXIT_OK;
+  } catch (e) {
+    if (e instanceof UsageError) {
+      console.error(`${e.message}\n\n${commandHelp(name, cmd)}`);
+      return EXIT_USAGE;
+    }
+    console.error(`fm ${name}: ${(e as Error).message}`);
+    return EXIT_FATAL;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
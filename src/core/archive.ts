@@ -1,16 +1,225 @@
-import { formatSize, isDirectory, normalizePath } from "../../utils/helper";
-import { walk } from "./handlers";
+import {
+  formatSize,
+  isDirectory,
+  normalizePath,
+  parseSize,
+  fileTime,
+  TIME_CRITERIA,
+} from "../../utils/helper";
+import { createPathFilter, matchGlob } from "../../utils/glob";
+import { walkStream } from "./handlers";
 import fs from "fs/promises";
-import { move as safeMove } from "../../utils/helper";
 import * as sp from "node:path";
 import { resolveLogger } from "../../utils/logger";
-import { ArchiveOptions, ArchiveResult, FileError } from "../../utils/types";
+import { createJournal, Journal } from "../../utils/journal";
+import {
+  applyDecision,
+  createConflictResolver,
+  DEFAULT_RENAME_PATTERN,
+  renamed,
+} from "../../utils/conflict";
+import { appendManifest } from "../../utils/manifest";
+import { hashFile } from "../../utils/hash";
+import {
+  containerExt,
+  ContainerInput,
+  readContainer,
+  writeContainer,
+} from "../../utils/container";
+import {
+  ArchiveCriterion,
+  ArchiveOptions,
+  ArchiveResult,
+  ContainerFormat,
+  FileError,
+  FileNode,
+} from "../../utils/types";
+import crypto from "crypto";
+
+const exists = (path: string) =>
+  fs.access(path).then(
+    () => true,
+    () => false
+  );
+
+// The `keepNewest` newest files of every folder, which stay where they are.
+// Only that many files per folder are held while the tree streams past.
+function newestPerDir(criterion: ArchiveCriterion, keep: number) {
+  const byDir = new Map<string, FileNode[]>();
+  const time = (f: FileNode) => fileTime(f, criterion)?.getTime() ?? 0;
+
+  return {
+    add(file: FileNode) {
+      const dir = sp.dirname(file.fullPath);
+      if (!byDir.has(dir)) byDir.set(dir, []);
+      const newest = byDir.get(dir)!;
+      const at = newest.findIndex((f) => time(file) > time(f));
+      if (at === -1) newest.push(file);
+      else newest.splice(at, 0, file);
+      if (newest.length > keep) newest.pop();
+    },
+    has(file: FileNode) {
+      return byDir.get(sp.dirname(file.fullPath))?.includes(file) ?? false;
+    },
+  };
+}
+
+interface ContainerRun {
+  root: string;
+  archivePath: string;
+  format: ContainerFormat;
+  preserveStructure: boolean;
+  opts: ArchiveOptions;
+  journal: Journal;
+  logger: ReturnType<typeof resolveLogger>;
+  result: ArchiveResult;
+}
+
+// Hash every entry of a freshly written container and compare it with what
+// was written; any difference means the originals must stay
+async function verifyContainer(file: string, expected: Map<string, string>) {
+  let seen = 0;
+  await readContainer(file, async (entry, data) => {
+    const hash = crypto.createHash("sha256");
+    for await (const chunk of data()) hash.update(chunk);
+    if (hash.digest("hex") !== expected.get(entry.path)) {
+      throw new Error(`content of ${entry.path} does not match`);
+    }
+    seen++;
+  });
+  if (seen !== expected.size) {
+    throw new Error(`expected ${expected.size} entries, found ${seen}`);
+  }
+}
+
+/**
+ * Stream old files into one new container in `archivePath`, verify it, and
+ * only then remove the originals (through the journal). Clashing names inside
+ * the container are renamed, or skipped with `conflict: "skip"`.
+ */
+async function archiveToContainer(files: FileNode[], run: ContainerRun) {
+  const { root, archivePath, format, preserveStructure, opts } = run;
+  const { journal, logger, result } = run;
+  const { dryRun = false, onArchive } = opts;
+  const pattern = opts.renamePattern ?? DEFAULT_RENAME_PATTERN;
+
+  const used = new Set<string>();
+  const inputs: ContainerInput[] = [];
+  for (const file of files) {
+    const rel = normalizePath(sp.relative(root, file.fullPath));
+    let path = preserveStructure ? rel : file.name;
+    if (used.has(path)) {
+      if (opts.conflict === "skip") {
+        (result.conflicts ??= []).push({
+          file: file.fullPath,
+          dest: path,
+          resolution: "skipped",
+        });
+        logger?.conflict(file.fullPath, path, "skipped");
+        continue;
+      }
+      let n = 2;
+      while (used.has(renamed(path, pattern, n))) n++;
+      path = renamed(path, pattern, n);
+      (result.conflicts ??= []).push({
+        file: file.fullPath,
+        dest: path,
+        resolution: "renamed",
+      });
+      logger?.conflict(file.fullPath, path, "renamed");
+    }
+    used.add(path);
+    inputs.push({
+      source: file.fullPath,
+      path,
+      size: file.size,
+      mtime: file.mtime ?? new Date(),
+    });
+  }
+
+  const stamp = new Date()
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace("T", "-")
+    .slice(0, 15);
+  const base = `${sp.basename(root)}-${stamp}`;
+  let container = normalizePath(
+    sp.join(archivePath, base + containerExt(format))
+  );
+  for (let n = 2; await exists(container); n++) {
+    container = normalizePath(
+      sp.join(archivePath, `${base}-${n}${containerExt(format)}`)
+    );
+  }
+  result.container = container;
+
+  const size = inputs.reduce((sum, i) => sum + i.size, 0);
+  if (dryRun) {
+    inputs.forEach((i) => logger?.archive(i.source, true));
+    result.archived = inputs.length;
+    return size;
+  }
+
+  logger?.info(`Writing ${container}`);
+  const hashes = await writeContainer(container, format, inputs);
+  try {
+    await verifyContainer(container, hashes);
+  } catch (err) {
+    await fs.rm(container, { force: true });
+    throw new Error(
+      `Verification of ${container} failed, originals kept: ${
+        (err as Error).message
+      }`
+    );
+  }
+
+  for (const input of inputs) {
+    try {
+      // The file may have changed after it was read into the container
+      if ((await hashFile(input.source)) !== hashes.get(input.path)) {
+        throw new Error("File changed while archiving, kept in place");
+      }
+      await journal.remove(input.source);
+      await appendManifest(archivePath, {
+        original: normalizePath(input.source),
+        archived: input.path,
+        container: normalizePath(sp.relative(archivePath, container)),
+        size: input.size,
+        mtime: input.mtime.toISOString(),
+        archivedAt: new Date().toISOString(),
+        journalId: journal.id,
+      });
+      onArchive?.(input.source, container);
+      result.archived++;
+      logger?.archive(input.source);
+    } catch (err) {
+      logger?.error(input.source, container, err);
+      result.errors.push({
+        file: input.source,
+        error: (err as Error).message,
+      });
+    }
+  }
+  return size;
+}
 
 /**
  * Archive old files based on modification time threshold.
  *
  * Moves files older than specified duration to an archive directory.
- * Files are considered "old" based on their last modification time (mtime).
+ * Files are considered "old" based on their last modification time (mtime),
+ * or on `criterion` ("atime" for files nobody has read lately). `minSize`,
+ * `maxSize`, `include` and `exclude` narrow the selection further, and
+ * `keepNewest` leaves the newest files of every folder in place.
+ * Name clashes in the archive are resolved with the `conflict` strategy.
+ *
+ * With `preserveStructure`, each file keeps its path relative to `root`
+ * inside the archive. Every archived file is recorded in the archive's
+ * manifest (`.fm/manifest.jsonl`), which `restore()` uses to put it back.
+ *
+ * With `format` "zip", "tar" or "tar.gz" the files are streamed into a single
+ * new container instead. Originals are removed only once the container has
+ * been read back and every entry's hash matches.
  *
  * @param root - Root directory to scan for old files
  * @param opts - Archive configuration options
@@ -26,6 +235,14 @@ export async function archive(root: string, opts: ArchiveOptions) {
     dryRun = false,
     log: enabled = false,
     onArchive,
+    journal: journaled = true,
+    preserveStructure = false,
+    format = "directory",
+    criterion = "mtime",
+    include = [],
+    keepNewest = 0,
+    onProgress,
+    signal,
   } = opts;
 
   const isDir = await isDirectory(root);
@@ -41,6 +258,23 @@ export async function archive(root: string, opts: ArchiveOptions) {
     throw new Error("durationDays must be greater than 0");
   }
 
+  if (!TIME_CRITERIA.includes(criterion)) {
+    throw new Error(
+      `Unknown criterion "${criterion}" (use ${TIME_CRITERIA.join(", ")})`
+    );
+  }
+
+  const minSize = opts.minSize === undefined ? 0 : parseSize(opts.minSize);
+  const maxSize =
+    opts.maxSize === undefined ? Infinity : parseSize(opts.maxSize);
+  if (minSize > maxSize) {
+    throw new Error("minSize must not be greater than maxSize");
+  }
+
+  if (!Number.isInteger(keepNewest) || keepNewest < 0) {
+    throw new Error("keepNewest must be a whole number of 0 or more");
+  }
+
   const result: ArchiveResult = {
     scanned: 0,
     archived: 0,
@@ -49,27 +283,52 @@ export async function archive(root: string, opts: ArchiveOptions) {
   };
 
   const logger = resolveLogger(enabled);
+  const journal = createJournal("archive", root, journaled);
+  const resolveConflict = createConflictResolver(opts);
 
   try {
-    const { files, errors } = await walk(root);
-    if (errors && errors.length > 0) {
-      result.errors.push(...errors);
+    // walkStream() reports real paths; never re-archive what is already archived
+    const realRoot = normalizePath(await fs.realpath(root));
+    const archiveDir = normalizePath(
+      await fs.realpath(archivePath).catch(() => sp.resolve(archivePath))
+    );
+    const relative = (full: string) =>
+      normalizePath(sp.relative(realRoot, full));
+    const excluded = await createPathFilter(root, opts);
+    const thresholdMs = Date.now() - durationDays * 24 * 60 * 60 * 1000;
+    const kept =
+      keepNewest > 0 ? newestPerDir(criterion, keepNewest) : undefined;
+    const candidates: FileNode[] = [];
+
+    for await (const file of walkStream(root, {
+      skip: (full, isDir) =>
+        (isDir && full === archiveDir) || excluded(full, isDir),
+      onProgress,
+      signal,
+      onError: (e) => result.errors.push(e),
+    })) {
+      result.scanned++;
+      kept?.add(file);
+
+      const time = fileTime(file, criterion);
+      if (!time || time.getTime() >= thresholdMs) continue;
+      if (file.size < minSize || file.size > maxSize) continue;
+      if (
+        include.length > 0 &&
+        !include.some((glob) => matchGlob(relative(file.fullPath), glob))
+      ) {
+        continue;
+      }
+      candidates.push(file);
     }
 
-    if (!files || files.length === 0) {
+    if (result.scanned === 0) {
       logger?.info("No files found to scan");
       return result;
     }
-    result.scanned = files.length;
-
-    const thresholdMs = Date.now() - durationDays * 24 * 60 * 60 * 1000;
 
-    const oldFiles = files.filter((file) => {
-      if (!file.mtime) {
-        return false;
-      }
-      return file.mtime.getTime() < thresholdMs;
-    });
+    // A folder's newest files are only known once the whole tree is seen
+    const oldFiles = candidates.filter((file) => !kept?.has(file));
 
     if (oldFiles.length === 0) {
       logger?.info("No files eligible for archiving");
@@ -86,18 +345,58 @@ export async function archive(root: string, opts: ArchiveOptions) {
       }
     }
 
+    if (format !== "directory") {
+      const size = await archiveToContainer(oldFiles, {
+        root: realRoot,
+        archivePath,
+        format,
+        preserveStructure,
+        opts,
+        journal,
+        logger,
+        result,
+      });
+      result.archivedSize = formatSize(size);
+      result.journalId = journal.id;
+      return result;
+    }
+
     let toatlSize = 0;
     for (const file of oldFiles) {
-      toatlSize += file.size;
-      const destPath = normalizePath(sp.join(archivePath, file.name));
-      if (dryRun) {
-        logger?.archive(file.fullPath, dryRun);
-        result.archived++;
-        continue;
-      }
+      const rel = relative(file.fullPath);
+      let destPath = normalizePath(
+        sp.join(archivePath, preserveStructure ? rel : file.name)
+      );
 
       try {
-        await safeMove(file.fullPath, destPath);
+        const decision = await resolveConflict(file.fullPath, destPath);
+        destPath = decision.dest;
+        if (decision.resolution) {
+          (result.conflicts ??= []).push({
+            file: file.fullPath,
+            dest: destPath,
+            resolution: decision.resolution,
+          });
+          logger?.conflict(file.fullPath, destPath, decision.resolution);
+        }
+        if (decision.action === "skip") continue;
+
+        toatlSize += file.size;
+        if (dryRun) {
+          logger?.archive(file.fullPath, dryRun);
+          result.archived++;
+          continue;
+        }
+
+        await applyDecision(journal, file.fullPath, decision);
+        await appendManifest(archivePath, {
+          original: normalizePath(file.fullPath),
+          archived: normalizePath(sp.relative(archivePath, destPath)),
+          size: file.size,
+          mtime: (file.mtime ?? new Date()).toISOString(),
+          archivedAt: new Date().toISOString(),
+          journalId: journal.id,
+        });
         onArchive?.(file.fullPath, destPath);
         result.archived++;
 
@@ -112,6 +411,7 @@ export async function archive(root: string, opts: ArchiveOptions) {
       }
     }
     result.archivedSize = formatSize(toatlSize);
+    result.journalId = journal.id;
 
     return result;
   } catch (e) {
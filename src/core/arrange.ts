@@ -1,87 +1,122 @@
-import { mediaTypes } from "../../utils/names";
-import { ArrangeOptions, FileNode, MediaRules, OperationStats } from "../../utils/types";
+import { ArrangeOptions, FileNode, OperationStats } from "../../utils/types";
 import * as sp from "node:path";
 import fs from "fs/promises";
-import {
-  isDirectory,
-  normalizeExt,
-  normalizePath,
-  move as safeMove,
-} from "../../utils/helper";
+import { isDirectory, normalizePath } from "../../utils/helper";
 import { resolveLogger } from "../../utils/logger";
+import { createJournal } from "../../utils/journal";
+import { isConfigFile } from "../../utils/config";
+import { createPathFilter } from "../../utils/glob";
+import {
+  applyDecision,
+  createConflictResolver,
+  TRANSFER_MODES,
+} from "../../utils/conflict";
+import {
+  captureDate,
+  createRouter,
+  detectNode,
+  isCaptureMedia,
+} from "./router";
+import { toFileNode, walk } from "./handlers";
 
-function resolveRules(user?: MediaRules): MediaRules {
-  const system = mediaTypes;
-  if (!user) return system;
-  // create a copy of sysyem media types for safe edit
-  const result: MediaRules = structuredClone(system);
-
-  // Remove user extensions from all system folders
-  const token = new Set(
-    Object.values(user)
-      .flat()
-      .map((e) => e.toLowerCase())
-  );
-
-  for (const folder in result) {
-    result[folder] = result[folder].filter((ext) => !token.has(ext));
-  }
+async function intialBuildState(dir: string): Promise<FileNode[]> {
+  const entries = await fs.readdir(normalizePath(dir), {
+    withFileTypes: true,
+  });
 
-  //   Apply rules in result
-  for (const [folder, exts] of Object.entries(user)) {
-    result[folder] = exts;
-  }
-  return result;
-}
+  const files: FileNode[] = [];
+  for (const entry of entries) {
+    if (!entry.isFile() || isConfigFile(entry.name)) continue;
 
-function buildExtMap(rules: MediaRules): Map<string, string> {
-  const map = new Map<string, string>();
+    const full = normalizePath(sp.join(dir, entry.name));
+    const stat = await fs.stat(full);
 
-  for (const [folder, exts] of Object.entries(rules)) {
-    for (const ext of exts) {
-      if (map.has(ext)) {
-        throw new Error(`Extension "${ext}" assigned twice`);
-      }
-      map.set(ext, folder);
-    }
+    files.push(toFileNode(dir, full, stat));
   }
+  return files;
+}
 
-  return map;
+interface ScanOptions {
+  recursive: boolean;
+  depth: number;
+  excluded: (fullPath: string, isDir?: boolean) => boolean;
+  /** Top-level folders arrange routes into; never scanned. */
+  roots: ReadonlySet<string>;
+  /** Real path of the `output` folder, never scanned. */
+  outputDir?: string;
 }
 
-function createRouter(rules?: MediaRules) {
-  const resolved = resolveRules(rules);
-  const extMap = buildExtMap(resolved);
+// Files arrange should route: the top level, or the whole tree minus the
+// category folders and anything excluded
+async function collectFiles(
+  dir: string,
+  { recursive, depth, excluded, roots, outputDir }: ScanOptions,
+  stats: OperationStats
+): Promise<FileNode[]> {
+  if (!recursive) {
+    const files = await intialBuildState(dir);
+    return files.filter((f) => !excluded(f.fullPath));
+  }
 
-  return (file: FileNode, baseDir: string) => {
-    const folder = extMap.get(file.ext) ?? "others";
-    const destDir = normalizePath(sp.join(baseDir, folder));
-    const destPath = normalizePath(sp.join(destDir, file.name));
-    return { file, destDir, destPath };
-  };
+  // walk() reports real paths, so compare against the real root
+  const realDir = normalizePath(await fs.realpath(dir));
+  const { files, errors } = await walk(dir, {
+    depth,
+    skip: (full, isDir) =>
+      (isDir &&
+        ((normalizePath(sp.dirname(full)) === realDir &&
+          roots.has(sp.basename(full))) ||
+          full === outputDir)) ||
+      excluded(full, isDir),
+  });
+  stats.errors.push(...errors);
+  return files.filter((f) => !isConfigFile(f.name));
 }
 
-async function intialBuildState(dir: string): Promise<FileNode[]> {
-  const entries = await fs.readdir(normalizePath(dir), {
-    withFileTypes: true,
-  });
+// Swap in the detected extension where content and name disagree
+async function detectTypes(
+  files: FileNode[],
+  stats: OperationStats,
+  logger: ReturnType<typeof resolveLogger>
+): Promise<FileNode[]> {
+  const result: FileNode[] = [];
+  stats.mismatches = [];
 
-  const files: FileNode[] = [];
-  for (const entry of entries) {
-    if (!entry.isFile()) continue;
+  for (const file of files) {
+    try {
+      const { file: node, mismatch } = await detectNode(file);
+      if (mismatch) {
+        stats.mismatches.push(mismatch);
+        logger?.mismatch(mismatch.file, mismatch.ext, mismatch.detected);
+      }
+      result.push(node);
+    } catch (err) {
+      logger?.warn(
+        `Could not read ${file.fullPath}, using its extension (${
+          (err as Error).message
+        })`
+      );
+      result.push(file);
+    }
+  }
+  return result;
+}
 
-    const full = normalizePath(sp.join(dir, entry.name));
-    const stat = await fs.stat(full);
+// Capture dates of photos and videos; files without one are reported in stats
+async function captureDates(
+  files: FileNode[],
+  stats: OperationStats
+): Promise<Map<string, Date>> {
+  const dates = new Map<string, Date>();
+  stats.undated = [];
 
-    files.push({
-      dir,
-      name: entry.name,
-      fullPath: full,
-      ext: normalizeExt(sp.extname(entry.name)),
-      size: stat.size,
-    });
+  for (const file of files) {
+    if (!isCaptureMedia(file.ext)) continue;
+    const date = await captureDate(file);
+    if (date) dates.set(file.fullPath, date);
+    else stats.undated.push(file.fullPath);
   }
-  return files;
+  return dates;
 }
 
 /**
@@ -89,10 +124,20 @@ async function intialBuildState(dir: string): Promise<FileNode[]> {
  *
  * Features:
  * - Creates necessary folders (Images, Videos, Documents, etc.)
- * - Skips directories automatically
+ * - Top level only by default; `recursive` also routes nested files into the
+ *   category folders at the root, never re-scanning those folders
+ * - `exclude` patterns and `ignoreFile` (.gitignore syntax) leave matching
+ *   files and folders where they are
+ * - Taken destinations are resolved with the `conflict` strategy (default rename)
+ * - `output` builds the arranged tree in another folder, and `mode: "copy"`
+ *   or `"hardlink"` leaves the original files where they are
  * - Detects the correct folder for each file based on extension rules
+ * - Optionally sniffs file content to route files with missing or wrong extensions
  * - Supports custom rules to override default folders
+ * - `groupBy: "date"` files photos and videos as Photos/2024/2024-06-12 using
+ *   EXIF / HEIC / MP4 capture dates, falling back to the modification time
  * - Dry-run mode to simulate moves without touching files
+ * - Records every move in a journal so the run can be undone with `revert`
  * - Returns detailed stats for scanned, moved, skipped, and errors
  * - Optional callback for integration with UI or real-time updates
  *
@@ -104,7 +149,20 @@ export async function arrange(
   path: string,
   options?: ArrangeOptions
 ): Promise<OperationStats> {
-  const { rules, dryRun = false, onMove, log: enabled = false } = options ?? {};
+  const {
+    rules,
+    dryRun = false,
+    onMove,
+    log: enabled = false,
+    journal: journaled = true,
+    detectType = false,
+    groupBy,
+    dateFolder,
+    recursive = false,
+    depth = 0,
+    output,
+    mode = "move",
+  } = options ?? {};
   const stats: OperationStats = {
     scanned: 0,
     moved: 0,
@@ -113,24 +171,59 @@ export async function arrange(
   };
 
   const logger = resolveLogger(enabled);
+  const journal = createJournal("arrange", output ?? path, journaled);
+  const resolveConflict = createConflictResolver(options);
 
   try {
     const isDir = await isDirectory(path);
     if (!isDir) throw new Error(`Path '${path}' is not a directory`);
 
-    const files = await intialBuildState(path);
+    if (depth < 0) throw new Error("depth must not be negative");
+    if (!TRANSFER_MODES.includes(mode)) {
+      throw new Error(
+        `Unknown mode "${mode}" (use ${TRANSFER_MODES.join(", ")})`
+      );
+    }
+
+    const route = createRouter(rules, { groupBy, dateFolder });
+    const excluded = await createPathFilter(path, options ?? {});
+    // Category folders in the tree are only special when arranging in place
+    const files = await collectFiles(
+      path,
+      {
+        recursive,
+        depth,
+        excluded,
+        roots: output ? new Set<string>() : route.roots,
+        outputDir: output
+          ? normalizePath(
+              await fs.realpath(output).catch(() => sp.resolve(output))
+            )
+          : undefined,
+      },
+      stats
+    );
     if (files.length === 0) {
       logger?.info("Nothing to arrange");
       return stats;
     }
     stats.scanned = files.length;
 
-    const route = createRouter(rules);
-    const plan = files.map((f) => route(f, path));
+    const routed = detectType ? await detectTypes(files, stats, logger) : files;
+    const dates =
+      groupBy === "date" ? await captureDates(routed, stats) : new Map();
+    if (stats.undated?.length) {
+      logger?.info(
+        `${stats.undated.length} photo(s)/video(s) without a capture date, using modification time`
+      );
+    }
+    const plan = routed.map((f) =>
+      route(f, output ?? path, dates.get(f.fullPath))
+    );
 
     for (const move of plan) {
       const src = normalizePath(move.file.fullPath);
-      const dest = normalizePath(move.destPath);
+      let dest = normalizePath(move.destPath);
 
       if (src === dest) {
         stats.skipped++;
@@ -139,17 +232,34 @@ export async function arrange(
         continue;
       }
 
-      if (dryRun) {
-        stats.moved++;
-        logger?.dryRun(src, dest);
-        onMove?.({ file: src, dest }, stats);
-        continue;
-      }
-
       try {
-        await safeMove(src, dest);
+        const decision = await resolveConflict(src, dest);
+        dest = decision.dest;
+        if (decision.resolution) {
+          (stats.conflicts ??= []).push({
+            file: src,
+            dest,
+            resolution: decision.resolution,
+          });
+          logger?.conflict(src, dest, decision.resolution);
+        }
+
+        if (decision.action === "skip") {
+          stats.skipped++;
+          onMove?.({ file: src, dest }, stats);
+          continue;
+        }
+
+        if (dryRun) {
+          stats.moved++;
+          logger?.placed(src, dest, mode, true);
+          onMove?.({ file: src, dest }, stats);
+          continue;
+        }
+
+        await applyDecision(journal, src, decision, mode);
         stats.moved++;
-        logger?.success(src, dest);
+        logger?.placed(src, dest, mode);
         onMove?.({ file: src, dest }, stats);
       } catch (err) {
         const e = err as Error;
@@ -162,6 +272,7 @@ export async function arrange(
       }
     }
 
+    stats.journalId = journal.id;
     return stats;
   } catch (error) {
     const err = error as Error;
@@ -0,0 +1,84 @@
+import * as sp from "node:path";
+import { normalizePath } from "../../utils/helper";
+import { FileNode, SimilarStrategy } from "../../utils/types";
+
+// Whether `path` is `dir` itself or lies below it
+export const isUnder = (path: string, dir: string) =>
+  path === dir || path.startsWith(dir.replace(/\/?$/, "/"));
+
+/**
+ * Pick the copy to keep. With `within`, only copies below one of those
+ * folders qualify (in that order for "first"); `canonicalPath` narrows the
+ * choice the same way for the "canonical" strategy. "highest-resolution"
+ * only means something for decoded images and falls back to the larger file.
+ */
+export const chooseCanonical = <
+  T extends FileNode & { width?: number; height?: number }
+>(
+  group: T[],
+  options: { strategy?: SimilarStrategy; canonicalPath?: string },
+  within: string[] = []
+): T => {
+  const { canonicalPath, strategy = canonicalPath ? "canonical" : "first" } =
+    options;
+  const files =
+    within.length === 0
+      ? group
+      : ([] as T[]).concat(
+          ...within.map((dir) => group.filter((f) => isUnder(f.fullPath, dir)))
+        );
+
+  switch (strategy) {
+    case "canonical":
+      if (!canonicalPath) {
+        throw new Error("canonicalPath is required for 'canonical' strategy");
+      }
+      const dir = normalizePath(sp.resolve(canonicalPath));
+      const preferred = files.find((f) => isUnder(f.fullPath, dir));
+      if (!preferred) {
+        console.warn(
+          `No file matches canonical path '${canonicalPath}', falling back to first file`
+        );
+        return files[0];
+      }
+      return preferred;
+
+    case "oldest":
+      return files.reduce((oldest, current) =>
+        current.mtime && oldest.mtime && current.mtime < oldest.mtime
+          ? current
+          : oldest
+      );
+
+    case "newest":
+      return files.reduce((newest, current) =>
+        current.mtime && newest.mtime && current.mtime > newest.mtime
+          ? current
+          : newest
+      );
+
+    case "shortest-path":
+      return files.reduce((shortest, current) =>
+        current.fullPath.length < shortest.fullPath.length ? current : shortest
+      );
+
+    case "longest-path":
+      return files.reduce((longest, current) =>
+        current.fullPath.length > longest.fullPath.length ? current : longest
+      );
+
+    case "highest-resolution": {
+      const pixels = (f: T) => (f.width ?? 0) * (f.height ?? 0);
+      return files.reduce((best, current) =>
+        pixels(current) > pixels(best) ||
+        (pixels(current) === pixels(best) && current.size > best.size)
+          ? current
+          : best
+      );
+    }
+
+    case "first":
+    default:
+      return files[0];
+  }
+};
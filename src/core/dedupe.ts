@@ -1,94 +1,336 @@
-import { DedupeOptions, DedupeResult, FileNode } from "../../utils/types";
-import { deleteEmptyDirs, walk } from "./handlers";
+import {
+  DedupeAction,
+  DedupeAgainstResult,
+  DedupeOptions,
+  DedupeResult,
+  DuplicateFile,
+  FileNode,
+} from "../../utils/types";
+import { deleteEmptyDirs, walkStream } from "./handlers";
 import fs from "fs/promises";
-import { createReadStream } from "fs";
-import crypto from "crypto";
 import { normalizePath } from "../../utils/helper";
 import { resolveLogger } from "../../utils/logger";
+import { createJournal, FM_DIR, Journal } from "../../utils/journal";
+import { applyDecision, createConflictResolver } from "../../utils/conflict";
+import { hashEnds, hashFile, PARTIAL_HASH_BYTES } from "../../utils/hash";
+import { mapLimit } from "../../utils/pool";
+import { chooseCanonical, isUnder } from "./canonical";
+import { openHashCache } from "../../utils/hashCache";
+import { createPathFilter } from "../../utils/glob";
+import crypto from "crypto";
+import * as sp from "node:path";
+
+export const DEDUPE_ACTIONS: readonly DedupeAction[] = [
+  "delete",
+  "hardlink",
+  "symlink",
+  "reflink",
+  "quarantine",
+];
+
+// Hash every file of every group on a bounded pool and split the groups by
+// digest. Files that can't be read are reported through `fail` and dropped.
+async function splitByHash(
+  groups: FileNode[][],
+  hash: (file: FileNode) => Promise<string>,
+  concurrency: number,
+  fail: (file: FileNode, err: Error) => void
+): Promise<Map<string, FileNode[]>> {
+  const files = ([] as FileNode[]).concat(...groups);
+  const digests = await mapLimit(files, concurrency, (file) =>
+    hash(file).catch((err: Error) => {
+      fail(file, err);
+      return undefined;
+    })
+  );
 
-const hashFile = (filePath: string): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const hash = crypto.createHash("sha256");
-    const stream = createReadStream(filePath);
-
-    stream.on("data", (chunk) => hash.update(chunk));
-    stream.on("end", () => resolve(hash.digest("hex")));
-    stream.on("error", (err) => reject(err));
+  const byHash = new Map<string, FileNode[]>();
+  files.forEach((file, i) => {
+    const digest = digests[i];
+    if (digest === undefined) return;
+    // Same digest but different size can't be the same content
+    const key = `${file.size}:${digest}`;
+    if (!byHash.has(key)) byHash.set(key, []);
+    byHash.get(key)!.push(file);
   });
-};
-
-const shouldIgnore = (filePath: string, patterns: string[]): boolean => {
-  if (!patterns || patterns.length === 0) return false;
-
-  return patterns.some((pattern) => {
-    // Simple glob-like matching
-    const regexPattern = pattern
-      .replace(/\./g, "\\.")
-      .replace(/\*/g, ".*")
-      .replace(/\?/g, ".");
-
-    const regex = new RegExp(regexPattern);
-    return (
-      regex.test(normalizePath(filePath)) ||
-      normalizePath(filePath).includes(pattern)
+  return byHash;
+}
+
+const emptyResult = (): DedupeResult => ({
+  scannedFiles: 0,
+  duplicateGroups: 0,
+  filesDeleted: 0,
+  spaceSaved: 0,
+  errors: [],
+  groups: [],
+  metrics: {
+    durationMs: 0,
+    uniqueSize: 0,
+    partialHashes: 0,
+    fullHashes: 0,
+    cacheHits: 0,
+    bytesHashed: 0,
+    bytesSkipped: 0,
+  },
+});
+
+function checkOptions(options: DedupeOptions) {
+  const { action = "delete", algorithm = "sha256", concurrency = 4 } = options;
+  if (!DEDUPE_ACTIONS.includes(action)) {
+    throw new Error(
+      `Unknown dedupe action "${action}" (use ${DEDUPE_ACTIONS.join(", ")})`
     );
-  });
-};
-
-const chooseCanonical = (
-  files: FileNode[],
-  options: DedupeOptions
-): FileNode => {
-  const { canonicalPath, strategy = canonicalPath ? "canonical" : "first" } =
-    options;
-
-  switch (strategy) {
-    case "canonical":
-      if (!canonicalPath) {
-        throw new Error("canonicalPath is required for 'canonical' strategy");
+  }
+  if (!crypto.getHashes().includes(algorithm.toLowerCase())) {
+    throw new Error(`Unknown hash algorithm '${algorithm}'`);
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("concurrency must be a whole number of 1 or more");
+  }
+}
+
+interface Scan {
+  files: FileNode[];
+  result: DedupeResult;
+  logger: ReturnType<typeof resolveLogger>;
+  options: DedupeOptions;
+}
+
+/**
+ * Hash the same-size `candidates` in stages (partial, then full) and group
+ * them by content. Only groups with more than one file are returned. The
+ * cache is saved with every file of `scan` as the set still present.
+ */
+async function groupByContent(
+  candidates: FileNode[][],
+  roots: string[],
+  { files, result, logger, options }: Scan
+): Promise<Map<string, FileNode[]>> {
+  const { algorithm = "sha256", concurrency = 4, cacheFile, onError } = options;
+  const { metrics } = result;
+
+  const cache = await openHashCache(cacheFile);
+  // Look the digest up in the cache before reading the file
+  const cached =
+    (kind: string, compute: (file: FileNode) => Promise<string>) =>
+    async (file: FileNode) => {
+      const hit = cache.get(file, kind);
+      if (hit) {
+        metrics.cacheHits++;
+        return hit;
       }
-      const preferred = files.find((f) => f.fullPath.startsWith(canonicalPath));
-      if (!preferred) {
-        console.warn(
-          `No file matches canonical path '${canonicalPath}', falling back to first file`
+      const hash = await compute(file);
+      cache.set(file, kind, hash);
+      return hash;
+    };
+
+  const fail = (file: FileNode, err: Error) => {
+    result.errors.push({
+      file: file.fullPath,
+      error: err.message,
+    });
+    logger?.errorMessage(err.message);
+    onError?.(file, err);
+  };
+
+  // Files of up to two partial blocks are read whole by the partial hash,
+  // so they go straight to the full hash
+  const small = candidates.filter((g) => g[0].size <= 2 * PARTIAL_HASH_BYTES);
+  const large = candidates.filter((g) => g[0].size > 2 * PARTIAL_HASH_BYTES);
+
+  const partial = await splitByHash(
+    large,
+    cached(`${algorithm}:ends`, async (file) => {
+      const hash = await hashEnds(file.fullPath, algorithm);
+      metrics.partialHashes++;
+      metrics.bytesHashed += 2 * PARTIAL_HASH_BYTES;
+      return hash;
+    }),
+    concurrency,
+    fail
+  );
+  const survivors = [...small];
+  for (const group of partial.values()) {
+    if (group.length > 1) {
+      survivors.push(group);
+    } else {
+      metrics.bytesSkipped += group[0].size - 2 * PARTIAL_HASH_BYTES;
+    }
+  }
+
+  const full = await splitByHash(
+    survivors,
+    cached(algorithm, async (file) => {
+      logger?.hashing(`Hashing ${file.fullPath}`);
+      const hash = await hashFile(file.fullPath, algorithm);
+      metrics.fullHashes++;
+      metrics.bytesHashed += file.size;
+      return hash;
+    }),
+    concurrency,
+    fail
+  );
+
+  try {
+    await cache.save(roots, files);
+  } catch (error) {
+    // A cache that can't be written only costs time on the next run
+    result.errors.push({
+      file: cacheFile!,
+      error: (error as Error).message,
+    });
+    logger?.errorMessage((error as Error).message);
+  }
+
+  const byContent = new Map<string, FileNode[]>();
+  for (const [key, group] of full) {
+    if (group.length > 1) byContent.set(key.slice(key.indexOf(":") + 1), group);
+  }
+  return byContent;
+}
+
+/**
+ * Apply `action` to every duplicate of one group and record it in the
+ * result. Failures are recorded per file; the rest of the group goes on.
+ */
+async function resolveGroup(
+  hash: string,
+  canonical: FileNode,
+  copies: FileNode[],
+  ctx: Scan & { root: string; journal: Journal; quarantinePath: string }
+) {
+  const { result, logger, options, root, journal, quarantinePath } = ctx;
+  const { dryRun = false, action = "delete", onDuplicate, onError } = options;
+
+  // Hard links of one file share an inode; relinking them gains nothing
+  const duplicates: DuplicateFile[] = copies
+    .filter(
+      (f) => !(action === "hardlink" && !!f.ino && f.ino === canonical.ino)
+    )
+    .map((f) => ({ ...f, action }));
+  if (duplicates.length === 0) return;
+  onDuplicate?.(canonical, duplicates);
+  logger?.canonical(canonical.fullPath);
+
+  const groupInfo = {
+    hash,
+    canonical,
+    duplicates,
+    spaceSaved: 0,
+  };
+  result.groups.push(groupInfo);
+  result.duplicateGroups++;
+
+  const resolveQuarantine = createConflictResolver({});
+  for (const dup of duplicates) {
+    try {
+      if (action === "quarantine") {
+        const rel = sp.relative(root, dup.fullPath);
+        const decision = await resolveQuarantine(
+          dup.fullPath,
+          normalizePath(sp.join(quarantinePath, rel))
         );
-        return files[0];
+        dup.dest = decision.dest;
+        if (dryRun) {
+          logger?.dryRun(dup.fullPath, dup.dest);
+        } else {
+          await applyDecision(journal, dup.fullPath, decision);
+          logger?.success(dup.fullPath, dup.dest);
+        }
+      } else if (action !== "delete") {
+        dup.dest = canonical.fullPath;
+        if (!dryRun) {
+          await journal.link(canonical.fullPath, dup.fullPath, action);
+        }
+        logger?.linked(dup.fullPath, canonical.fullPath, action, dryRun);
+      } else if (dryRun) {
+        logger?.deleteDryRun(dup.fullPath);
+      } else {
+        await journal.remove(dup.fullPath);
+        logger?.deleted(dup.fullPath, dup.size);
       }
-      return preferred;
-
-    case "oldest":
-      return files.reduce((oldest, current) =>
-        current.mtime && oldest.mtime && current.mtime < oldest.mtime
-          ? current
-          : oldest
-      );
-
-    case "newest":
-      return files.reduce((newest, current) =>
-        current.mtime && newest.mtime && current.mtime > newest.mtime
-          ? current
-          : newest
-      );
-
-    case "shortest-path":
-      return files.reduce((shortest, current) =>
-        current.fullPath.length < shortest.fullPath.length ? current : shortest
-      );
-
-    case "longest-path":
-      return files.reduce((longest, current) =>
-        current.fullPath.length > longest.fullPath.length ? current : longest
-      );
-
-    case "first":
-    default:
-      return files[0];
+      result.filesDeleted++;
+      // Quarantined files still take up space until the folder is emptied
+      if (action !== "quarantine") {
+        groupInfo.spaceSaved += dup.size;
+        result.spaceSaved += dup.size;
+      }
+    } catch (error) {
+      const err = error as Error;
+      dup.action = "failed";
+      result.errors.push({
+        file: dup.fullPath,
+        error: err.message,
+      });
+      logger?.errorMessage(err.message);
+      onError?.(dup, err);
+    }
+  }
+}
+
+// Walk `root` without the quarantine folder, the hash cache file and
+// excluded paths
+async function scan(
+  root: string,
+  options: DedupeOptions,
+  result: DedupeResult
+) {
+  const {
+    ignorePatterns = [],
+    exclude = [],
+    cacheFile,
+    onProgress,
+    signal,
+  } = options;
+  const stats = await fs.stat(root);
+  if (!stats.isDirectory()) {
+    throw new Error(`Path '${root}' is not a directory`);
+  }
+
+  // Never treat what an earlier run quarantined as duplicates again
+  const quarantinePath = normalizePath(
+    sp.resolve(options.quarantinePath ?? sp.join(root, FM_DIR, "quarantine"))
+  );
+  const quarantineDir = normalizePath(
+    await fs.realpath(quarantinePath).catch(() => quarantinePath)
+  );
+  const cachePath = cacheFile
+    ? normalizePath(await fs.realpath(cacheFile).catch(() => cacheFile))
+    : undefined;
+
+  const excluded = await createPathFilter(root, {
+    ...options,
+    exclude: [...ignorePatterns, ...exclude],
+  });
+  const files: FileNode[] = [];
+  for await (const file of walkStream(root, {
+    skip: (full, isDir) =>
+      (isDir && full === quarantineDir) || excluded(full, isDir),
+    onProgress,
+    signal,
+    onError: (e) => result.errors.push(e),
+  })) {
+    if (file.fullPath !== cachePath) files.push(file);
   }
-};
+
+  return {
+    files,
+    realRoot: normalizePath(await fs.realpath(root)),
+    quarantinePath,
+  };
+}
 
 /**
  * Deduplicate files in a directory tree
  *
+ * Candidates are narrowed in stages so that large files are only read when
+ * they have to be: files are grouped by size, same-size files by a hash of
+ * their first and last 64 KB, and only files that still collide are hashed
+ * in full. Hashing runs `concurrency` files at a time.
+ *
+ * With `cacheFile`, digests are kept between runs keyed by path, size, mtime
+ * and inode, so a run over an unchanged tree reads nothing but file stats.
+ *
  * @param root - Root directory to scan
  * @param options - Deduplication options
  * @returns Promise<DedupeResult> - Results of the deduplication
@@ -110,24 +352,20 @@ export async function dedupe(
 ): Promise<DedupeResult> {
   const {
     dryRun = false,
-    ignorePatterns = [],
-    onDuplicate,
-    onError,
     deleteEmpty = false,
     log: enabled = false,
+    journal: journaled = true,
   } = options;
 
+  checkOptions(options);
+  const startedAt = Date.now();
+
   const logger = resolveLogger(enabled);
+  const journal = createJournal("dedupe", root, journaled);
 
   // Initialize result
-  const result: DedupeResult = {
-    scannedFiles: 0,
-    duplicateGroups: 0,
-    filesDeleted: 0,
-    spaceSaved: 0,
-    errors: [],
-    groups: [],
-  };
+  const result = emptyResult();
+  const { metrics } = result;
 
   logger?.info(
     dryRun
@@ -136,28 +374,22 @@ export async function dedupe(
   );
 
   try {
-    const stats = await fs.stat(root);
-    if (!stats.isDirectory()) {
-      throw new Error(`Path '${root}' is not a directory`);
-    }
-
-    const { files, errors: walkErrors } = await walk(root);
-    result.errors.push(...walkErrors);
-
-    // Filter out ignored files
-    const filteredFiles = files.filter(
-      (file) => !shouldIgnore(file.fullPath, ignorePatterns)
+    const { files, realRoot, quarantinePath } = await scan(
+      root,
+      options,
+      result
     );
-    result.scannedFiles = filteredFiles.length;
-    if (filteredFiles.length === 0) {
+    result.scannedFiles = files.length;
+    if (files.length === 0) {
       logger?.info("there is no duplicated files.");
+      metrics.durationMs = Date.now() - startedAt;
       return result;
     }
 
     // Group files by size first
     const sizeMap = new Map<number, FileNode[]>();
 
-    for (const file of filteredFiles) {
+    for (const file of files) {
       if (!sizeMap.has(file.size)) {
         sizeMap.set(file.size, []);
       }
@@ -168,77 +400,29 @@ export async function dedupe(
     const potentialDuplicates = Array.from(sizeMap.values()).filter(
       (group) => group.length > 1
     );
-
-    const hashMap = new Map<string, FileNode[]>();
-
-    for (const sizeGroup of potentialDuplicates) {
-      for (const file of sizeGroup) {
-        try {
-          const hash = await hashFile(file.fullPath);
-          logger?.hashing(`Hashing ${file.fullPath}`);
-
-          if (!hashMap.has(hash)) {
-            hashMap.set(hash, []);
-          }
-          hashMap.get(hash)!.push(file);
-        } catch (error) {
-          const err = error as Error;
-          result.errors.push({
-            file: file.fullPath,
-            error: err.message,
-          });
-          logger?.errorMessage(err.message);
-          onError?.(file, err);
-        }
-      }
-    }
-
-    // Process duplicate groups
-    let deletedCount = 0;
-    const duplicateGroups = Array.from(hashMap.entries()).filter(
-      ([_, group]) => group.length > 1
+    metrics.uniqueSize = potentialDuplicates.reduce(
+      (n, group) => n - group.length,
+      files.length
     );
 
-    result.duplicateGroups = duplicateGroups.length;
+    const ctx = { files, result, logger, options };
+    const duplicateGroups = await groupByContent(
+      potentialDuplicates,
+      [realRoot],
+      ctx
+    );
 
+    // Process duplicate groups
     for (const [hash, group] of duplicateGroups) {
       try {
         // Choose canonical file
         const canonical = chooseCanonical(group, options);
-        const duplicates = group.filter((f) => f !== canonical);
-        onDuplicate?.(canonical, duplicates);
-        logger?.canonical(canonical.fullPath);
-
-        const groupInfo = {
+        await resolveGroup(
           hash,
           canonical,
-          duplicates,
-          spaceSaved: duplicates.reduce((sum, f) => sum + f.size, 0),
-        };
-        result.groups.push(groupInfo);
-
-        // Delete duplicates
-        for (const dup of duplicates) {
-          try {
-            if (dryRun) {
-              logger?.deleteDryRun(dup.fullPath);
-            } else {
-              await fs.unlink(dup.fullPath);
-              logger?.deleted(dup.fullPath, dup.size);
-            }
-            result.filesDeleted++;
-            result.spaceSaved += dup.size;
-            deletedCount++;
-          } catch (error) {
-            const err = error as Error;
-            result.errors.push({
-              file: dup.fullPath,
-              error: err.message,
-            });
-            logger?.errorMessage(err.message);
-            onError?.(dup, err);
-          }
-        }
+          group.filter((f) => f !== canonical),
+          { ...ctx, root: realRoot, journal, quarantinePath }
+        );
       } catch (error) {
         const err = error as Error;
         result.errors.push({
@@ -249,6 +433,7 @@ export async function dedupe(
       }
     }
     logger?.dedupeSummary(result.filesDeleted, result.spaceSaved);
+    result.journalId = journal.id;
 
     if (deleteEmpty) {
       if (!dryRun) {
@@ -257,9 +442,133 @@ export async function dedupe(
       }
     }
 
+    metrics.durationMs = Date.now() - startedAt;
     return result;
   } catch (error) {
     const err = error as Error;
     throw err;
   }
 }
+
+/**
+ * Remove (or, with `dryRun`, report) the files in `target` whose content
+ * already exists in one of the `references` trees.
+ *
+ * References are only read, never changed: the copy that is kept always
+ * comes from them, chosen by `strategy` among the reference copies ("first"
+ * prefers the references in the order given). Duplicates that exist only
+ * inside `target` are left alone. All other options work as in `dedupe()`,
+ * so `action` can link to the reference instead of deleting.
+ *
+ * @param target - Tree to clean up
+ * @param references - Trees that are known to be kept, e.g. a backup
+ * @param options - Deduplication options
+ * @returns DedupeResult where `scannedFiles` counts target files
+ *
+ * @throws Error if a path is not a directory, or target and a reference overlap
+ *
+ * @example
+ * ```typescript
+ * // Is this USB dump already on the NAS?
+ * const report = await dedupeAgainst("/media/usb", ["/nas/backup"], {
+ *   dryRun: true,
+ * });
+ * console.log(`${report.filesDeleted} of ${report.scannedFiles} files are already backed up`);
+ * ```
+ */
+export async function dedupeAgainst(
+  target: string,
+  references: string[],
+  options: DedupeOptions = {}
+): Promise<DedupeAgainstResult> {
+  const {
+    dryRun = false,
+    deleteEmpty = false,
+    log: enabled = false,
+    journal: journaled = true,
+  } = options;
+
+  checkOptions(options);
+  if (references.length === 0) {
+    throw new Error("At least one reference directory is required");
+  }
+  const startedAt = Date.now();
+
+  const logger = resolveLogger(enabled);
+  const journal = createJournal("dedupe", target, journaled);
+  const result: DedupeAgainstResult = { ...emptyResult(), referenceFiles: 0 };
+  const { metrics } = result;
+
+  const own = await scan(target, options, result);
+  const refs = [];
+  for (const ref of references) {
+    const found = await scan(ref, options, result);
+    if (
+      isUnder(found.realRoot, own.realRoot) ||
+      isUnder(own.realRoot, found.realRoot)
+    ) {
+      throw new Error(`Target '${target}' and reference '${ref}' overlap`);
+    }
+    refs.push(found);
+  }
+  const refRoots = refs.map((r) => r.realRoot);
+  const refFiles = ([] as FileNode[]).concat(...refs.map((r) => r.files));
+  result.scannedFiles = own.files.length;
+  result.referenceFiles = refFiles.length;
+
+  // Only sizes present on both sides can hold a copy
+  const targetSizes = new Set(own.files.map((f) => f.size));
+  const refSizes = new Set(refFiles.map((f) => f.size));
+  const bySize = new Map<number, FileNode[]>();
+  for (const file of [...own.files, ...refFiles]) {
+    if (!targetSizes.has(file.size) || !refSizes.has(file.size)) {
+      metrics.uniqueSize++;
+      continue;
+    }
+    if (!bySize.has(file.size)) bySize.set(file.size, []);
+    bySize.get(file.size)!.push(file);
+  }
+
+  const ctx = {
+    files: ([] as FileNode[]).concat(own.files, ...refs.map((r) => r.files)),
+    result,
+    logger,
+    options,
+  };
+  const groups = await groupByContent(
+    [...bySize.values()],
+    [own.realRoot, ...refRoots],
+    ctx
+  );
+
+  for (const [hash, group] of groups) {
+    const copies = group.filter((f) => isUnder(f.fullPath, own.realRoot));
+    if (copies.length === 0 || copies.length === group.length) continue;
+    try {
+      const canonical = chooseCanonical(group, options, refRoots);
+      await resolveGroup(hash, canonical, copies, {
+        ...ctx,
+        root: own.realRoot,
+        journal,
+        quarantinePath: own.quarantinePath,
+      });
+    } catch (error) {
+      const err = error as Error;
+      result.errors.push({
+        file: `group:${hash.substring(0, 8)}`,
+        error: err.message,
+      });
+      logger?.errorMessage(err.message);
+    }
+  }
+  logger?.dedupeSummary(result.filesDeleted, result.spaceSaved);
+  result.journalId = journal.id;
+
+  if (deleteEmpty && !dryRun) {
+    const { deleted } = await deleteEmptyDirs(target);
+    logger?.deleted(`Deleted ${deleted} empty directories`);
+  }
+
+  metrics.durationMs = Date.now() - startedAt;
+  return result;
+}
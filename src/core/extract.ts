@@ -0,0 +1,112 @@
+import fs from "fs/promises";
+import { createWriteStream } from "node:fs";
+import { once } from "node:events";
+import * as sp from "node:path";
+import { normalizePath } from "../../utils/helper";
+import { resolveLogger } from "../../utils/logger";
+import { matchGlob } from "../../utils/glob";
+import { readContainer, safeEntryPath } from "../../utils/container";
+import { ArchiveEntry, ExtractOptions, ExtractResult } from "../../utils/types";
+
+const exists = (path: string) =>
+  fs.access(path).then(
+    () => true,
+    () => false
+  );
+
+/** Write an entry's data to `dest` and give it the entry's mtime. */
+export async function writeEntry(
+  dest: string,
+  entry: ArchiveEntry,
+  data: AsyncIterable<Buffer>,
+  overwrite = false
+) {
+  await fs.mkdir(sp.dirname(dest), { recursive: true });
+  const out = createWriteStream(dest, { flags: overwrite ? "w" : "wx" });
+  try {
+    await once(out, "open");
+    for await (const chunk of data) {
+      if (!out.write(chunk)) await once(out, "drain");
+    }
+    out.end();
+    await once(out, "close");
+  } catch (err) {
+    out.destroy();
+    await fs.rm(dest, { force: true });
+    throw err;
+  }
+  await fs.utimes(dest, entry.mtime, entry.mtime);
+}
+
+/**
+ * List the files in a zip, tar or tar.gz archive.
+ *
+ * @param file - Archive to read (format from the extension, else the magic bytes)
+ * @returns Entries in archive order
+ */
+export async function listArchive(file: string): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [];
+  await readContainer(file, (entry) => {
+    entries.push(entry);
+  });
+  return entries;
+}
+
+/**
+ * Extract a zip, tar or tar.gz archive into a folder, restoring mtimes.
+ *
+ * Existing files are skipped unless `overwrite` is set. Entries that would
+ * land outside `dest` (absolute paths, `..`) are rejected. Zip entries are
+ * checked against their CRC.
+ *
+ * @param file - Archive to extract
+ * @param dest - Folder to extract into (created if needed)
+ * @param options - include globs, overwrite, dryRun and log
+ */
+export async function extractArchive(
+  file: string,
+  dest: string,
+  options: ExtractOptions = {}
+): Promise<ExtractResult> {
+  const {
+    include = [],
+    overwrite = false,
+    dryRun = false,
+    log: enabled = false,
+  } = options;
+  const logger = resolveLogger(enabled);
+  const result: ExtractResult = { extracted: 0, skipped: 0, errors: [] };
+
+  await readContainer(file, async (entry, data) => {
+    if (include.length > 0 && !include.some((g) => matchGlob(entry.path, g))) {
+      return;
+    }
+
+    let target = normalizePath(sp.join(dest, entry.path));
+    try {
+      target = normalizePath(sp.join(dest, safeEntryPath(entry.path)));
+      if (!overwrite && (await exists(target))) {
+        result.skipped++;
+        logger?.skipped(target);
+        return;
+      }
+      if (dryRun) {
+        result.extracted++;
+        logger?.dryRun(`${file}:${entry.path}`, target);
+        return;
+      }
+
+      await writeEntry(target, entry, data(), overwrite);
+      result.extracted++;
+      logger?.success(`${file}:${entry.path}`, target);
+    } catch (err) {
+      result.errors.push({
+        file: `${file}:${entry.path}`,
+        error: (err as Error).message,
+      });
+      logger?.error(`${file}:${entry.path}`, target, err);
+    }
+  });
+
+  return result;
+}
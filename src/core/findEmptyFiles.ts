@@ -1,8 +1,9 @@
 import { isDirectory } from "../../utils/helper";
 import { resolveLogger } from "../../utils/logger";
 import { FindEmptyOptions, FinderState } from "../../utils/types";
-import { walk } from "./handlers";
-import fs from "fs/promises";
+import { walkStream } from "./handlers";
+import { createJournal } from "../../utils/journal";
+import { createPathFilter } from "../../utils/glob";
 
 /**
  * Find and optionally delete (dryRun by default) empty files (0 bytes) in a directory tree
@@ -41,6 +42,9 @@ export async function findEmptyFiles(
     onError,
     getFiles = false,
     log = false,
+    journal: journaled = true,
+    onProgress,
+    signal,
   } = options;
   const result: FinderState = {
     scanned: 0,
@@ -51,21 +55,22 @@ export async function findEmptyFiles(
   };
 
   const logger = resolveLogger(log);
+  const journal = createJournal("empty", root, journaled);
 
   try {
     const isDir = await isDirectory(root);
     if (!isDir) throw new Error(`Path '${root}' is not a directory`);
 
-    const { files, errors } = await walk(root);
-    result.errors.push(...errors);
+    const excluded = await createPathFilter(root, options);
+    const files = walkStream(root, {
+      skip: excluded,
+      onProgress,
+      signal,
+      onError: (e) => result.errors.push(e),
+    });
 
-    if (!files || files.length === 0) {
-      logger?.info("There is no files in the directory");
-      return result;
-    }
-    result.scanned = files.length;
-
-    for (const file of files) {
+    for await (const file of files) {
+      result.scanned++;
       if (file.size === 0) {
         result.empty++;
         getFiles &&
@@ -77,7 +82,7 @@ export async function findEmptyFiles(
         if (deleteEmpty) {
           try {
             if (!dryRun) {
-              await fs.unlink(file.fullPath);
+              await journal.remove(file.fullPath);
               logger?.deleted(file.fullPath);
               result.deleted++;
               onEmptyFile?.(file.fullPath, true);
@@ -102,6 +107,12 @@ export async function findEmptyFiles(
       }
     }
 
+    if (result.scanned === 0) {
+      logger?.info("There is no files in the directory");
+      return result;
+    }
+
+    result.journalId = journal.id;
     return result;
   } catch (error) {
     const err = error as Error;
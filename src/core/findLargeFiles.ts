@@ -1,80 +1,315 @@
-import { formatSize, isDirectory } from "../../utils/helper";
-import { FileError } from "../../utils/types";
-import { walk } from "./handlers";
-
-interface LargeFile {
-  path: string;
-  sizeMB: string;
-  sizeBytes: number;
-}
+import * as sp from "node:path";
+import fs from "fs/promises";
+import {
+  fileTime,
+  formatSize,
+  isDirectory,
+  normalizeExt,
+  normalizePath,
+  parseSize,
+  TIME_CRITERIA,
+} from "../../utils/helper";
+import { createPathFilter } from "../../utils/glob";
+import { createTopN } from "../../utils/heap";
+import { resolveLogger } from "../../utils/logger";
+import { createJournal } from "../../utils/journal";
+import { appendManifest } from "../../utils/manifest";
+import { applyDecision, createConflictResolver } from "../../utils/conflict";
+import {
+  FileNode,
+  FilterOptions,
+  FindLargeOptions,
+  LargeFile,
+  LargeFileAction,
+  LargeFinderState,
+  StreamOptions,
+} from "../../utils/types";
+import { walkStream } from "./handlers";
+import { createCategorizer } from "./router";
+
+export const LARGE_FILE_ACTIONS: readonly LargeFileAction[] = [
+  "archive",
+  "move",
+  "delete",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toLargeFile = (file: FileNode): LargeFile => ({
+  path: file.fullPath,
+  sizeMB: formatSize(file.size),
+  sizeBytes: file.size,
+});
 
-interface LargeFinderState {
-  limit: number;
-  matched: number;
-  errors?: FileError[];
-  filesPath: LargeFile[];
+// Biggest first; equal sizes in path order so runs are repeatable
+const bySize = (a: FileNode, b: FileNode) =>
+  a.size - b.size || b.fullPath.localeCompare(a.fullPath);
+
+// Every filter except size, which is checked first because it is cheapest
+function createMatcher(options: FindLargeOptions) {
+  const { ext, categories, rules, olderThanDays, newerThanDays } = options;
+  const { criterion = "mtime" } = options;
+  const exts = ext && new Set(ext.map(normalizeExt));
+  const wanted = categories && new Set(categories);
+  const categoryOf = createCategorizer(rules);
+  const now = Date.now();
+
+  return (file: FileNode) => {
+    if (exts && !exts.has(file.ext)) return false;
+    if (wanted && !wanted.has(categoryOf(file.ext))) return false;
+    if (olderThanDays !== undefined || newerThanDays !== undefined) {
+      const time = fileTime(file, criterion);
+      if (!time) return false;
+      const age = now - time.getTime();
+      if (olderThanDays !== undefined && age < olderThanDays * DAY_MS) {
+        return false;
+      }
+      if (newerThanDays !== undefined && age >= newerThanDays * DAY_MS) {
+        return false;
+      }
+    }
+    return true;
+  };
 }
 
 /**
  * Finds large files in a directory tree that exceed a minimum size threshold
+ *
+ * Only the `limit` largest matches are held while the tree streams past, so
+ * the top files of a huge tree cost no more memory than those of a small
+ * one. Matches can be narrowed by extension, category and age, totalled per
+ * folder with `groupBy: "dir"`, and the reported files archived (moved under
+ * `dest` with their path relative to `root`, and recorded in its manifest
+ * so `restore` can bring them back), moved into `dest`, or deleted.
+ *
  * @param root - Root directory path to start the search
- * @param minSizeMB - Minimum file size in MB (default 500MB)
- * @param limit - Maximum number of files to return (default 10)
+ * @param options - Size, type and age filters, grouping and the action to take
  * @returns Promise resolving to search results with matched files
- * @throws Error if root path is invalid, not a directory, or walk operation fails
+ * @throws Error if root path is invalid, not a directory, options are out of
+ *   range, or walk operation fails
+ *
+ * @example
+ * ```typescript
+ * // The 20 biggest videos untouched for a year, moved to cold storage
+ * const result = await findLargeFiles("/media", {
+ *   minSize: "1.5GB",
+ *   categories: ["videos"],
+ *   olderThanDays: 365,
+ *   limit: 20,
+ *   action: "archive",
+ *   dest: "/mnt/cold/media",
+ * });
+ * ```
  */
 export async function findLargeFiles(
   root: string,
-  minSizeMB = 500,
-  limit = 10
+  options?: FindLargeOptions
+): Promise<LargeFinderState>;
+/** @deprecated Pass a `FindLargeOptions` object instead */
+export async function findLargeFiles(
+  root: string,
+  minSizeMB?: number,
+  limit?: number,
+  filter?: FilterOptions & StreamOptions
+): Promise<LargeFinderState>;
+export async function findLargeFiles(
+  root: string,
+  optionsOrMinSizeMB?: FindLargeOptions | number,
+  legacyLimit?: number,
+  filter: FilterOptions & StreamOptions = {}
 ): Promise<LargeFinderState> {
+  const options: FindLargeOptions =
+    typeof optionsOrMinSizeMB === "object"
+      ? optionsOrMinSizeMB
+      : { ...filter, minSizeMB: optionsOrMinSizeMB, limit: legacyLimit };
+  const {
+    minSizeMB,
+    limit = 10,
+    criterion = "mtime",
+    groupBy,
+    action,
+    dest,
+    dryRun = false,
+    log: enabled = false,
+    journal: journaled = true,
+    onMatch,
+    onAction,
+    onError,
+    onProgress,
+    signal,
+  } = options;
+
   const isDir = await isDirectory(root);
   if (!isDir) throw new Error(`Path '${root}' is not a directory`);
 
-  if (minSizeMB <= 0) {
+  if (minSizeMB !== undefined && minSizeMB <= 0) {
     throw new Error("minSizeMB must be greater than 0");
   }
+  const minSize =
+    options.minSize !== undefined
+      ? parseSize(options.minSize)
+      : (minSizeMB ?? 500) * 1024 ** 2;
+  const maxSize =
+    options.maxSize === undefined ? Infinity : parseSize(options.maxSize);
+  if (minSize > maxSize) {
+    throw new Error("minSize must not be greater than maxSize");
+  }
 
-  if (limit <= 0) {
+  if (!Number.isInteger(limit) || limit <= 0) {
     throw new Error("limit must be greater than 0");
   }
+  if (!TIME_CRITERIA.includes(criterion)) {
+    throw new Error(
+      `Unknown criterion "${criterion}" (use ${TIME_CRITERIA.join(", ")})`
+    );
+  }
+  if (groupBy !== undefined && groupBy !== "dir") {
+    throw new Error(`Unknown groupBy "${groupBy}" (use "dir")`);
+  }
+  if (action !== undefined && !LARGE_FILE_ACTIONS.includes(action)) {
+    throw new Error(
+      `Unknown action "${action}" (use ${LARGE_FILE_ACTIONS.join(", ")})`
+    );
+  }
+  if ((action === "move" || action === "archive") && !dest) {
+    throw new Error(`The "${action}" action needs a dest folder`);
+  }
 
-  const bytes = minSizeMB * 1024 ** 2;
   const result: LargeFinderState = {
     limit,
     matched: 0,
+    matchedBytes: 0,
+    errors: [],
     filesPath: [],
+    processed: 0,
   };
 
+  const logger = resolveLogger(enabled);
+
   try {
-    const { files, errors } = await walk(root);
+    const realRoot = normalizePath(await fs.realpath(root));
+    // Never report (or act on) what an earlier run already moved away
+    const destDir = dest
+      ? normalizePath(await fs.realpath(dest).catch(() => sp.resolve(dest)))
+      : undefined;
+    const excluded = await createPathFilter(root, options);
+    const matches = createMatcher(options);
+    const top = createTopN(limit, bySize);
+    const groups = new Map<string, { files: number; sizeBytes: number }>();
+
+    for await (const file of walkStream(root, {
+      skip: (full, isDir) =>
+        (isDir && full === destDir) || excluded(full, isDir),
+      onProgress,
+      signal,
+      onError: (e) => result.errors.push(e),
+    })) {
+      if (file.size < minSize || file.size > maxSize) continue;
+      if (!matches(file)) continue;
 
-    if (errors && errors.length > 0) {
-      result.errors?.push(...errors);
+      result.matched++;
+      result.matchedBytes += file.size;
+      top.push(file);
+      onMatch?.(toLargeFile(file));
+
+      if (groupBy === "dir") {
+        const dir = sp.dirname(file.fullPath);
+        const group = groups.get(dir) ?? { files: 0, sizeBytes: 0 };
+        group.files++;
+        group.sizeBytes += file.size;
+        groups.set(dir, group);
+      }
+    }
+
+    const largest = top.sorted();
+    result.filesPath = largest.map(toLargeFile);
+    if (groupBy === "dir") {
+      result.groups = Array.from(groups, ([path, g]) => ({
+        path,
+        files: g.files,
+        sizeMB: formatSize(g.sizeBytes),
+        sizeBytes: g.sizeBytes,
+      })).sort(
+        (a, b) => b.sizeBytes - a.sizeBytes || a.path.localeCompare(b.path)
+      );
     }
 
-    if (!files || files.length === 0) {
+    if (!action) {
+      largest.forEach((file) => logger?.large(file.fullPath, file.size));
       return result;
     }
 
-    const largeFiles: LargeFile[] = files
-      .filter((file) => {
-        // Ensure file has required properties
-        if (!file || typeof file.size !== "number" || !file.fullPath) {
-          return false;
+    const journal = createJournal("large", root, journaled);
+    const resolveConflict = createConflictResolver(options);
+
+    for (const file of largest) {
+      const src = file.fullPath;
+      if (action === "delete") {
+        try {
+          if (dryRun) {
+            logger?.deleteDryRun(src);
+          } else {
+            await journal.remove(src);
+            logger?.deleted(src, file.size);
+            onAction?.(src);
+          }
+          result.processed++;
+        } catch (err) {
+          result.errors.push({ file: src, error: (err as Error).message });
+          logger?.errorMessage((err as Error).message);
+          onError?.(src, err as Error);
         }
-        return file.size >= bytes;
-      })
-      .map((file) => ({
-        path: file.fullPath,
-        sizeMB: formatSize(file.size),
-        sizeBytes: file.size,
-      }))
-      .sort((a, b) => b.sizeBytes - a.sizeBytes);
-
-    result.filesPath = largeFiles.slice(0, limit);
-    result.matched = largeFiles.length;
+        continue;
+      }
+
+      const rel = normalizePath(sp.relative(realRoot, src));
+      let destPath = normalizePath(
+        sp.join(dest!, action === "archive" ? rel : file.name)
+      );
+      try {
+        const decision = await resolveConflict(src, destPath);
+        destPath = decision.dest;
+        if (decision.resolution) {
+          (result.conflicts ??= []).push({
+            file: src,
+            dest: destPath,
+            resolution: decision.resolution,
+          });
+          logger?.conflict(src, destPath, decision.resolution);
+        }
+        if (decision.action === "skip") continue;
+
+        if (dryRun) {
+          if (action === "archive") logger?.archive(src, true);
+          else logger?.dryRun(src, destPath);
+          result.processed++;
+          continue;
+        }
+
+        await applyDecision(journal, src, decision);
+        if (action === "archive") {
+          await appendManifest(dest!, {
+            original: normalizePath(src),
+            archived: normalizePath(sp.relative(dest!, destPath)),
+            size: file.size,
+            mtime: (file.mtime ?? new Date()).toISOString(),
+            archivedAt: new Date().toISOString(),
+            journalId: journal.id,
+          });
+          logger?.archive(src);
+        } else {
+          logger?.success(src, destPath);
+        }
+        result.processed++;
+        onAction?.(src, destPath);
+      } catch (err) {
+        result.errors.push({ file: src, error: (err as Error).message });
+        logger?.error(src, destPath, err);
+        onError?.(src, err as Error);
+      }
+    }
 
+    result.journalId = journal.id;
     return result;
   } catch (error) {
     const errorMessage =
@@ -1,63 +1,28 @@
 import * as sp from "node:path";
-import { ConflictStrategy, FileNode, FlattenOpts, OperationStats } from "../../utils/types";
-import {
-  isDirectory,
-  normalizePath,
-  move as safeMove,
-} from "../../utils/helper";
-import { deleteEmptyDirs, walk } from "./handlers";
+import fs from "fs/promises";
+import { FlattenOpts, OperationStats } from "../../utils/types";
+import { isDirectory, normalizePath } from "../../utils/helper";
+import { deleteEmptyDirs, walkStream } from "./handlers";
 import { resolveLogger } from "../../utils/logger";
-
-const resolveNames = (
-  destRoot: string,
-  files: FileNode[],
-  conflict: ConflictStrategy = "rename"
-) => {
-  const used = new Map();
-
-  return files.map((file) => {
-    const ext = `.${file.ext}`;
-    const base = sp.basename(file.name, ext);
-
-    let finalName = `${base}${ext}`;
-    switch (conflict) {
-      case "overwrite":
-        return {
-          src: file.fullPath,
-          dest: normalizePath(sp.join(destRoot, finalName)),
-        };
-
-      case "skip":
-        return {
-          src: file.fullPath,
-          dest: normalizePath(sp.join(destRoot, finalName)),
-        };
-
-      case "rename":
-      default: {
-        if (used.has(finalName)) {
-          const counter = used.get(finalName) + 1;
-          used.set(finalName, counter);
-          finalName = `${base}-(${counter === 1 ? 2 : counter + 1})${ext}`;
-        } else {
-          used.set(finalName, 0);
-        }
-      }
-    }
-
-    return {
-      src: file.fullPath,
-      dest: normalizePath(sp.join(destRoot, finalName)),
-    };
-  });
-};
+import { createJournal } from "../../utils/journal";
+import { isConfigFile } from "../../utils/config";
+import { createPathFilter } from "../../utils/glob";
+import {
+  applyDecision,
+  createConflictResolver,
+  TRANSFER_MODES,
+} from "../../utils/conflict";
 
 /**
  * Flatten all files in a directory tree into the root folder.
  *
  * Moves all files found under `path` (recursively up to `depth`) into the root,
  * resolving name conflicts according to `conflict` strategy.
- * Optionally deletes empty directories after moving.
+ * Optionally deletes empty directories after moving. Files are moved as the
+ * tree is walked; `onProgress` and `signal` follow and cancel the walk.
+ *
+ * With `output` the flattened files are gathered in that folder instead, and
+ * with `mode: "copy"` or `"hardlink"` the tree itself is left untouched.
  *
  * @param path - The root directory to flatten.
  * @param opts - Options to control flatten behavior.
@@ -68,10 +33,14 @@ export async function flatten(path: string, opts?: FlattenOpts) {
   const {
     depth = 0,
     level = 0,
-    conflict = "rename",
     dryRun = false,
     deleteEmpty = true,
     log: enabled = false,
+    journal: journaled = true,
+    onProgress,
+    signal,
+    output,
+    mode = "move",
   } = opts ?? {};
   path = normalizePath(path);
   const stats: OperationStats = {
@@ -82,46 +51,75 @@ export async function flatten(path: string, opts?: FlattenOpts) {
   };
 
   const logger = resolveLogger(enabled);
+  const resolveConflict = createConflictResolver(opts);
 
   try {
     const isDir = await isDirectory(path);
     if (!isDir) throw new Error(`Path '${path}' is not a directory`);
-
-    const { files, errors } = await walk(path, depth, level);
-    stats.scanned = files.length;
-    stats.errors.push(...errors);
-
-    if (files.length === 0) {
-      logger?.info("Nothing to flatten (no files found)");
-      return stats;
+    if (!TRANSFER_MODES.includes(mode)) {
+      throw new Error(
+        `Unknown mode "${mode}" (use ${TRANSFER_MODES.join(", ")})`
+      );
     }
 
-    const hasNestedFiles = files.some((f) => normalizePath(f.dir) !== path);
-
-    if (!hasNestedFiles) {
-      logger?.info("Nothing to flatten (no nested folders)");
-      return stats;
-    }
-
-    const plan = resolveNames(path, files, conflict);
-    for (const p of plan) {
-      const src = p.src;
-      const dest = p.dest;
+    const excluded = await createPathFilter(path, opts ?? {});
+    // walkStream() reports real paths, so destinations are built from the
+    // real root; an output folder may not exist yet
+    const outputDir = output
+      ? normalizePath(await fs.realpath(output).catch(() => sp.resolve(output)))
+      : undefined;
+    const root = outputDir ?? normalizePath(await fs.realpath(path));
+    const journal = createJournal("flatten", root, journaled);
+    const files = walkStream(path, {
+      depth,
+      level,
+      // Never gather what was already gathered
+      skip: (full, isDir) =>
+        (isDir && full === outputDir) || excluded(full, isDir),
+      onProgress,
+      signal,
+      onError: (e) => stats.errors.push(e),
+    });
+    let nested = 0;
+
+    // Files are moved as they stream in; a folder is fully listed before any
+    // of its files are handed over, so moving them doesn't disturb the walk
+    for await (const file of files) {
+      if (isConfigFile(file.name)) continue;
+      stats.scanned++;
+      const src = normalizePath(file.fullPath);
+      let dest = normalizePath(sp.join(root, file.name));
 
       if (src === dest) {
         logger?.skipped(src);
         stats.skipped++;
         continue;
       }
-      if (dryRun) {
-        stats.moved++;
-        logger?.dryRun(src, dest);
-        continue;
-      }
+      nested++;
       try {
-        await safeMove(src, dest);
+        const decision = await resolveConflict(src, dest);
+        dest = decision.dest;
+        if (decision.resolution) {
+          (stats.conflicts ??= []).push({
+            file: src,
+            dest,
+            resolution: decision.resolution,
+          });
+          logger?.conflict(src, dest, decision.resolution);
+        }
+
+        if (decision.action === "skip") {
+          stats.skipped++;
+          continue;
+        }
+        if (dryRun) {
+          stats.moved++;
+          logger?.placed(src, dest, mode, true);
+          continue;
+        }
+        await applyDecision(journal, src, decision, mode);
         stats.moved++;
-        logger?.success(src, dest);
+        logger?.placed(src, dest, mode);
       } catch (err) {
         const e = err as Error;
         stats.errors.push({
@@ -132,10 +130,21 @@ export async function flatten(path: string, opts?: FlattenOpts) {
       }
     }
 
-    if (deleteEmpty) {
+    if (stats.scanned === 0) {
+      logger?.info("Nothing to flatten (no files found)");
+      return stats;
+    }
+    if (nested === 0) {
+      logger?.info("Nothing to flatten (no nested folders)");
+      return stats;
+    }
+
+    // Copies and links leave the tree as it was
+    if (deleteEmpty && mode === "move") {
       await deleteEmptyDirs(path);
     }
 
+    stats.journalId = journal.id;
     return stats;
   } catch (err) {
     const error = err as Error;
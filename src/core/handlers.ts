@@ -1,66 +1,182 @@
 import * as sp from "node:path";
 import fs from "fs/promises";
 import { normalizeExt, normalizePath } from "../../utils/helper";
+import { FM_DIR } from "../../utils/journal";
 import {
   DeleteEmptyDirsResult,
   FileNode,
   FileError,
+  ScanProgress,
+  WalkOptions,
   WalkResult,
 } from "../../utils/types";
-import { Dirent } from "node:fs";
+import { Dir, Dirent, Stats } from "node:fs";
 
-export async function walk(
-  path: string,
-  depth: number = 0,
-  level: number = 0,
-  result: FileNode[] = [],
-  _visited = new Set<string>(),
-  _errors: FileError[] = []
-): Promise<WalkResult> {
-  // Resolve real path to avoid symlink loops
-  const real = await fs.realpath(path);
-  if (_visited.has(real)) {
-    return { files: result, errors: _errors };
+export function toFileNode(
+  dir: string,
+  fullPath: string,
+  stat: Stats
+): FileNode {
+  return {
+    dir,
+    ext: normalizeExt(sp.extname(fullPath)),
+    fullPath,
+    name: sp.basename(fullPath),
+    size: stat.size,
+    mtime: stat.mtime,
+    atime: stat.atime,
+    birthtime: stat.birthtime,
+    ctime: stat.ctime,
+    ino: stat.ino,
+  };
+}
+
+/**
+ * Stream the files under `root`, `depth` levels deep (0 = unlimited).
+ *
+ * Folders are read one at a time; the files of a folder are stat'ed
+ * `concurrency` at a time and yielded before its subfolders are read, so
+ * memory stays flat however big the tree is. Entries for which `skip`
+ * returns true are left out; skipped directories are not even read.
+ * Unreadable entries are reported to `onError` and the walk carries on.
+ *
+ * @throws Error once `signal` is aborted
+ *
+ * @example
+ * ```typescript
+ * for await (const file of walkStream("/data", { onProgress: console.log })) {
+ *   if (file.size > 1e9) console.log(file.fullPath);
+ * }
+ * ```
+ */
+export async function* walkStream(
+  root: string,
+  options: WalkOptions = {}
+): AsyncGenerator<FileNode> {
+  const {
+    depth = 0,
+    level = 0,
+    skip,
+    concurrency = 16,
+    onError,
+    onProgress,
+    signal,
+  } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("concurrency must be a whole number of 1 or more");
   }
-  _visited.add(real);
-  const unlimited = depth === 0;
-  if (!unlimited && level > depth) return { files: result, errors: _errors };
 
-  try {
-    const entries = await fs.readdir(real, { withFileTypes: true });
+  const progress: ScanProgress = {
+    root,
+    dirs: 0,
+    files: 0,
+    bytes: 0,
+    done: false,
+  };
+  let reported = 0;
+  const report = (force = false) => {
+    if (!onProgress) return;
+    const now = Date.now();
+    if (!force && now - reported < 100) return;
+    reported = now;
+    onProgress({ ...progress });
+  };
+  const checkAborted = () => {
+    if (signal?.aborted) throw new Error(`Walk of '${root}' was aborted`);
+  };
+  const fail = (file: string, err: any) =>
+    onError?.({ file, error: err?.message ?? String(err) });
 
-    for (const entry of entries) {
-      const full = normalizePath(sp.join(real, entry.name));
+  // Resolve real paths to avoid symlink loops
+  const visited = new Set<string>();
+  const stack: [string, number][] = [[root, level]];
 
-      try {
+  while (stack.length) {
+    checkAborted();
+    const [path, current] = stack.pop()!;
+
+    let dir: Dir;
+    try {
+      const real = await fs.realpath(path);
+      if (visited.has(real)) continue;
+      visited.add(real);
+      dir = await fs.opendir(real);
+    } catch (err) {
+      fail(path, err);
+      continue;
+    }
+    progress.dirs++;
+
+    const files: string[] = [];
+    const subdirs: string[] = [];
+    try {
+      for await (const entry of dir) {
+        const full = normalizePath(sp.join(dir.path, entry.name));
         if (entry.isDirectory()) {
-          await walk(full, depth, level + 1, result, _visited, _errors);
-        } else if (entry.isFile()) {
-          const stat = await fs.stat(full);
-          result.push({
-            dir: path,
-            ext: normalizeExt(sp.extname(full)),
-            fullPath: full,
-            name: entry.name,
-            size: stat.size,
-            mtime: stat.mtime,
-          });
+          // Never descend into the folder holding staged deletions
+          if (entry.name === FM_DIR || skip?.(full, true)) continue;
+          if (depth === 0 || current < depth) subdirs.push(full);
+        } else if (entry.isFile() && !skip?.(full, false)) {
+          files.push(full);
         }
-      } catch (err: any) {
-        _errors.push({
-          file: full,
-          error: err?.message ?? String(err),
-        });
       }
+    } catch (err) {
+      fail(path, err);
+    }
+
+    for (let i = 0; i < files.length; i += concurrency) {
+      checkAborted();
+      const batch = await Promise.all(
+        files.slice(i, i + concurrency).map(async (full) => {
+          try {
+            return toFileNode(path, full, await fs.stat(full));
+          } catch (err) {
+            fail(full, err);
+            return undefined;
+          }
+        })
+      );
+      for (const node of batch) {
+        if (!node) continue;
+        progress.files++;
+        progress.bytes += node.size;
+        yield node;
+      }
+      report();
+    }
+
+    // Reversed so subfolders are visited in the order they were listed
+    for (let i = subdirs.length - 1; i >= 0; i--) {
+      stack.push([subdirs[i], current + 1]);
     }
-  } catch (error: any) {
-    _errors.push({
-      file: path,
-      error: error?.message ?? String(error),
-    });
   }
 
-  return { files: result, errors: _errors };
+  progress.done = true;
+  report(true);
+}
+
+/**
+ * Collect files under `path`; see `walkStream()` for the options.
+ */
+export async function walk(
+  path: string,
+  options: WalkOptions = {}
+): Promise<WalkResult> {
+  const files: FileNode[] = [];
+  const errors: FileError[] = [];
+  const { onError } = options;
+
+  for await (const file of walkStream(path, {
+    ...options,
+    onError: (e) => {
+      errors.push(e);
+      onError?.(e);
+    },
+  })) {
+    files.push(file);
+  }
+
+  return { files, errors };
 }
 
 export async function deleteEmptyDirs(
@@ -88,6 +204,10 @@ export async function deleteEmptyDirs(
       const fullPath = sp.join(dir, entry.name);
 
       if (entry.isDirectory()) {
+        if (entry.name === FM_DIR) {
+          isEmpty = false;
+          continue;
+        }
         const childEmpty = await dirsCrowl(fullPath);
         if (!childEmpty) isEmpty = false;
       } else {
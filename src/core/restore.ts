@@ -0,0 +1,184 @@
+import fs from "fs/promises";
+import * as sp from "node:path";
+import { isDirectory, normalizePath } from "../../utils/helper";
+import { resolveLogger } from "../../utils/logger";
+import { createJournal, FM_DIR } from "../../utils/journal";
+import { applyDecision, createConflictResolver } from "../../utils/conflict";
+import { matchGlob } from "../../utils/glob";
+import { appendManifest, readManifest } from "../../utils/manifest";
+import { readContainer } from "../../utils/container";
+import { writeEntry } from "./extract";
+import {
+  ManifestEntry,
+  RestoreOptions,
+  RestoreResult,
+  TransferMode,
+} from "../../utils/types";
+
+const exists = (path: string) =>
+  fs.access(path).then(
+    () => true,
+    () => false
+  );
+
+/**
+ * Move archived files back to where they were archived from.
+ *
+ * Reads the manifest `archive()` keeps in the archive folder. Entries whose
+ * file is no longer in the archive (already restored, or removed by hand) are
+ * ignored. If something now occupies an original location, the `conflict`
+ * strategy decides what happens (default rename).
+ *
+ * Files archived into a zip / tar container are extracted from it; the
+ * container itself is left untouched and the entry is marked as restored in
+ * the manifest.
+ *
+ * @param archivePath - Archive folder passed to `archive()` as `archivePath`
+ * @param options - include globs, conflict handling, dryRun, log and journal
+ * @returns RestoreResult with counts, conflicts and errors
+ *
+ * @example
+ * ```typescript
+ * await archive("/projects", { archivePath: "/cold/projects", durationDays: 365, preserveStructure: true });
+ * // a client came back
+ * await restore("/cold/projects", { include: ["acme/**"] });
+ * ```
+ */
+export async function restore(
+  archivePath: string,
+  options: RestoreOptions = {}
+): Promise<RestoreResult> {
+  const {
+    include = [],
+    dryRun = false,
+    log: enabled = false,
+    journal: journaled = true,
+    onRestore,
+  } = options;
+
+  const isDir = await isDirectory(archivePath);
+  if (!isDir) throw new Error(`Path '${archivePath}' is not a directory`);
+
+  const logger = resolveLogger(enabled);
+  const journal = createJournal("restore", archivePath, journaled);
+  const resolveConflict = createConflictResolver(options);
+  const entries = await readManifest(archivePath);
+
+  const result: RestoreResult = {
+    scanned: 0,
+    restored: 0,
+    skipped: 0,
+    errors: [],
+  };
+
+  // Puts `src` at the entry's original location; false when it was skipped
+  const restoreFile = async (
+    src: string,
+    entry: ManifestEntry,
+    mode: TransferMode = "move"
+  ) => {
+    let dest = normalizePath(entry.original);
+    try {
+      const decision = await resolveConflict(src, dest);
+      dest = decision.dest;
+      if (decision.resolution) {
+        (result.conflicts ??= []).push({
+          file: src,
+          dest,
+          resolution: decision.resolution,
+        });
+        logger?.conflict(src, dest, decision.resolution);
+      }
+
+      if (decision.action === "skip") {
+        result.skipped++;
+        return false;
+      }
+      if (dryRun) {
+        result.restored++;
+        logger?.dryRun(src, dest);
+        return false;
+      }
+
+      await applyDecision(journal, src, decision, mode);
+      result.restored++;
+      logger?.success(src, dest);
+      onRestore?.(src, dest);
+      return true;
+    } catch (err) {
+      result.errors.push({ file: src, error: (err as Error).message });
+      logger?.error(src, dest, err);
+      return false;
+    }
+  };
+
+  const containers = new Map<string, Map<string, ManifestEntry>>();
+  for (const entry of entries) {
+    if (
+      include.length > 0 &&
+      !include.some((g) => matchGlob(entry.archived, g))
+    ) {
+      continue;
+    }
+
+    if (entry.container) {
+      if (entry.restoredAt && (await exists(entry.original))) continue;
+      if (!containers.has(entry.container)) {
+        containers.set(entry.container, new Map());
+      }
+      containers.get(entry.container)!.set(entry.archived, entry);
+      continue;
+    }
+
+    const src = normalizePath(sp.join(archivePath, entry.archived));
+    if (!(await exists(src))) continue;
+    result.scanned++;
+    await restoreFile(src, entry);
+  }
+
+  if (containers.size > 0) {
+    // Entries are extracted next to the archive first, so conflicts are
+    // resolved exactly like for plain archived files. They are journaled as
+    // copies: the extracted files are created, and revert deletes them
+    // rather than moving them back into a folder that is gone by then
+    const fmDir = sp.join(archivePath, FM_DIR);
+    await fs.mkdir(fmDir, { recursive: true });
+    const tmp = await fs.mkdtemp(sp.join(fmDir, "tmp-"));
+    try {
+      for (const [name, wanted] of containers) {
+        const container = normalizePath(sp.join(archivePath, name));
+        if (!(await exists(container))) continue;
+
+        let n = 0;
+        try {
+          await readContainer(container, async (item, data) => {
+            const entry = wanted.get(item.path);
+            if (!entry) return;
+            result.scanned++;
+
+            const src = normalizePath(sp.join(tmp, String(n++), item.path));
+            await writeEntry(src, item, data());
+            if (await restoreFile(src, entry, "copy")) {
+              await appendManifest(archivePath, {
+                ...entry,
+                restoredAt: new Date().toISOString(),
+              });
+            }
+          });
+        } catch (err) {
+          result.errors.push({
+            file: container,
+            error: (err as Error).message,
+          });
+          logger?.errorMessage(`${container}: ${(err as Error).message}`);
+        }
+      }
+    } finally {
+      await fs.rm(tmp, { recursive: true, force: true });
+    }
+  }
+
+  if (result.scanned === 0) logger?.info("Nothing to restore");
+  result.journalId = journal.id;
+  return result;
+}
@@ -0,0 +1,254 @@
+import * as sp from "node:path";
+import fs from "fs/promises";
+import { formatSize, isDirectory, normalizePath } from "../../utils/helper";
+import { resolveLogger } from "../../utils/logger";
+import { createJournal } from "../../utils/journal";
+import { createPathFilter, matchGlob } from "../../utils/glob";
+import { isConfigFile } from "../../utils/config";
+import { walk } from "./handlers";
+import {
+  FileNode,
+  RetentionPolicy,
+  RetentionResult,
+  RetentionTier,
+} from "../../utils/types";
+
+type Tier = Exclude<RetentionTier, "last">;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// ISO 8601 week: weeks start on Monday, week 1 holds the first Thursday
+function isoWeek(date: Date) {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  d.setDate(d.getDate() + 3 - ((d.getDay() + 6) % 7));
+  const firstThursday = new Date(d.getFullYear(), 0, 4);
+  const week =
+    1 +
+    Math.round(
+      ((d.getTime() - firstThursday.getTime()) / 86400000 -
+        3 +
+        ((firstThursday.getDay() + 6) % 7)) /
+        7
+    );
+  return `${d.getFullYear()}-W${pad(week)}`;
+}
+
+const TIERS: Record<
+  Tier,
+  { bucket: (d: Date) => string; since: (now: Date, n: number) => Date }
+> = {
+  daily: {
+    bucket: (d) =>
+      `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`,
+    since: (now, n) =>
+      new Date(now.getFullYear(), now.getMonth(), now.getDate() - n + 1),
+  },
+  weekly: {
+    bucket: isoWeek,
+    since: (now, n) =>
+      new Date(now.getFullYear(), now.getMonth(), now.getDate() - n * 7 + 1),
+  },
+  monthly: {
+    bucket: (d) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}`,
+    since: (now, n) => new Date(now.getFullYear(), now.getMonth() - n + 1, 1),
+  },
+  yearly: {
+    bucket: (d) => String(d.getFullYear()),
+    since: (now, n) => new Date(now.getFullYear() - n + 1, 0, 1),
+  },
+};
+
+/**
+ * Date embedded in a file name: `2024-05-01`, `20240501`, optionally
+ * followed by a time such as `T13:45:00`, `_134500` or `-13-45-00`.
+ */
+export function dateFromName(name: string): Date | undefined {
+  const match =
+    /(?:^|\D)(\d{4})-?(\d{2})-?(\d{2})(?:[T_ -]?(\d{2})[:.-]?(\d{2})(?:[:.-]?(\d{2}))?)?(?!\d)/.exec(
+      name
+    );
+  if (!match) return undefined;
+
+  const [y, m, d, h = 0, min = 0, s = 0] = match
+    .slice(1)
+    .map((part) => (part === undefined ? undefined : Number(part)));
+  const date = new Date(y!, m! - 1, d, h, min, s);
+  // Reject overflow such as 2024-02-31 or 25:00
+  if (
+    date.getMonth() !== m! - 1 ||
+    date.getDate() !== d ||
+    date.getHours() !== h ||
+    m! < 1 ||
+    y! < 1970
+  ) {
+    return undefined;
+  }
+  return date;
+}
+
+/**
+ * Rotate a directory of dated files (backups, logs, archives) with a
+ * grandfather-father-son policy.
+ *
+ * Each tier keeps the newest file of every period inside its window, e.g.
+ * `{ daily: 7, weekly: 8, monthly: 12 }` keeps one file per day for a week,
+ * one per week for 8 weeks and one per month for a year. Files no tier (and
+ * no `keepLast`) claims are deleted through the journal, so a run can be
+ * reverted until it is purged. Every folder is rotated on its own.
+ *
+ * @param root - Directory to rotate (scanned recursively)
+ * @param policy - Tiers, keepLast, dateFrom, include/exclude, dryRun, log and journal
+ * @returns RetentionResult with counts, deleted size and errors
+ *
+ * @throws Error if root is not a directory or the policy keeps nothing
+ *
+ * @example
+ * ```typescript
+ * // Nightly database dumps: daily for a week, weekly for 8 weeks, monthly for a year
+ * const result = await retention("/backups/db", {
+ *   daily: 7,
+ *   weekly: 8,
+ *   monthly: 12,
+ *   dateFrom: "name",
+ *   dryRun: true,
+ *   log: true,
+ * });
+ * console.log(`Would delete ${result.deleted} files (${result.deletedSize})`);
+ * ```
+ */
+export async function retention(
+  root: string,
+  policy: RetentionPolicy
+): Promise<RetentionResult> {
+  const {
+    keepLast = 0,
+    dateFrom = "mtime",
+    include = [],
+    dryRun = false,
+    log: enabled = false,
+    journal: journaled = true,
+    onDelete,
+  } = policy;
+
+  const isDir = await isDirectory(root);
+  if (!isDir) throw new Error(`Path '${root}' is not a directory`);
+
+  const tiers = (Object.keys(TIERS) as Tier[]).filter(
+    (tier) => policy[tier] !== undefined
+  );
+  for (const key of [...tiers, "keepLast"] as const) {
+    const n = key === "keepLast" ? keepLast : policy[key];
+    if (!Number.isInteger(n) || n! < 0) {
+      throw new Error(`${key} must be a whole number of 0 or more`);
+    }
+  }
+  if (keepLast === 0 && tiers.every((tier) => policy[tier] === 0)) {
+    throw new Error(
+      "Retention policy keeps nothing (set daily, weekly, monthly, yearly or keepLast)"
+    );
+  }
+  if (dateFrom !== "mtime" && dateFrom !== "name") {
+    throw new Error(`Unknown dateFrom "${dateFrom}" (use mtime, name)`);
+  }
+
+  const result: RetentionResult = {
+    scanned: 0,
+    kept: 0,
+    deleted: 0,
+    deletedSize: "0 B",
+    errors: [],
+  };
+
+  const logger = resolveLogger(enabled);
+  const journal = createJournal("retention", root, journaled);
+
+  const realRoot = normalizePath(await fs.realpath(root));
+  const relative = (full: string) => normalizePath(sp.relative(realRoot, full));
+  const excluded = await createPathFilter(root, policy);
+
+  const { files, errors } = await walk(root, { skip: excluded });
+  result.errors.push(...errors);
+
+  const candidates = files.filter(
+    (f) =>
+      !isConfigFile(f.name) &&
+      (include.length === 0 ||
+        include.some((glob) => matchGlob(relative(f.fullPath), glob)))
+  );
+  result.scanned = candidates.length;
+  if (candidates.length === 0) {
+    logger?.info("No files to rotate");
+    return result;
+  }
+
+  const dated = candidates.map((file) => ({
+    file,
+    date:
+      (dateFrom === "name" ? dateFromName(file.name) : undefined) ??
+      file.mtime ??
+      new Date(),
+  }));
+
+  const byDir = new Map<string, typeof dated>();
+  for (const item of dated) {
+    const dir = sp.dirname(item.file.fullPath);
+    if (!byDir.has(dir)) byDir.set(dir, []);
+    byDir.get(dir)!.push(item);
+  }
+
+  const now = new Date();
+  const doomed: FileNode[] = [];
+  for (const group of byDir.values()) {
+    group.sort((a, b) => b.date.getTime() - a.date.getTime());
+    const seen = new Map<Tier, Set<string>>(
+      tiers.map((tier) => [tier, new Set()])
+    );
+
+    group.forEach(({ file, date }, i) => {
+      const reasons: RetentionTier[] = i < keepLast ? ["last"] : [];
+      for (const tier of tiers) {
+        const { bucket, since } = TIERS[tier];
+        if (date < since(now, policy[tier]!)) continue;
+        const key = bucket(date);
+        if (seen.get(tier)!.has(key)) continue;
+        seen.get(tier)!.add(key);
+        reasons.push(tier);
+      }
+
+      if (reasons.length > 0) {
+        result.kept++;
+        logger?.retained(file.fullPath, reasons);
+      } else {
+        doomed.push(file);
+      }
+    });
+  }
+
+  let deletedSize = 0;
+  for (const file of doomed) {
+    if (dryRun) {
+      result.deleted++;
+      deletedSize += file.size;
+      logger?.deleteDryRun(file.fullPath);
+      continue;
+    }
+
+    try {
+      await journal.remove(file.fullPath);
+      result.deleted++;
+      deletedSize += file.size;
+      logger?.deleted(file.fullPath, file.size);
+      onDelete?.(file.fullPath);
+    } catch (err) {
+      result.errors.push({
+        file: file.fullPath,
+        error: (err as Error).message,
+      });
+      logger?.errorMessage(`${file.fullPath}: ${(err as Error).message}`);
+    }
+  }
+
+  result.deletedSize = formatSize(deletedSize);
+  result.journalId = journal.id;
+  return result;
+}
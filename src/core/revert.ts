@@ -0,0 +1,201 @@
+import fs from "fs/promises";
+import * as sp from "node:path";
+import { move as safeMove } from "../../utils/helper";
+import {
+  appendJournal,
+  journalDir,
+  journalFile,
+  readJournal,
+  trashDir,
+} from "../../utils/journal";
+import { resolveLogger } from "../../utils/logger";
+import { JournalInfo, OperationStats, RevertOptions } from "../../utils/types";
+
+const exists = (path: string) =>
+  fs.access(path).then(
+    () => true,
+    () => false
+  );
+
+/**
+ * Undo an operation by replaying its journal backwards.
+ *
+ * Moved files are moved back to where they came from and deleted files are
+ * restored from the trash they were staged into. Files that were replaced by
+ * a link or clone get their original back in place of the link, and files
+ * created as copies or links are deleted. Entries that were already undone
+ * (source back in place, destination gone) are skipped, so a revert that
+ * stopped half way can simply be run again.
+ *
+ * @param journalId - Id reported as `journalId` by the operation
+ * @param options - dryRun, log and a per-file callback
+ * @returns OperationStats where `moved` counts restored files
+ *
+ * @example
+ * ```typescript
+ * const stats = await arrange("/downloads");
+ * await revert(stats.journalId!);
+ * ```
+ */
+export async function revert(
+  journalId: string,
+  options: RevertOptions = {}
+): Promise<OperationStats> {
+  const { dryRun = false, log: enabled = false, onRevert } = options;
+  const logger = resolveLogger(enabled);
+
+  const { header, entries } = await readJournal(journalId);
+  if (entries.some((e) => e.type === "reverted")) {
+    throw new Error(`Journal '${journalId}' was already reverted`);
+  }
+
+  const stats: OperationStats = {
+    scanned: 0,
+    moved: 0,
+    skipped: 0,
+    errors: [],
+    journalId,
+  };
+
+  // `replaces`: dest holds the link that stood in for the staged file
+  // `copied`: file is a copy of (or link to) dest, undone by deleting it
+  type Step = {
+    file: string;
+    dest: string;
+    replaces?: boolean;
+    copied?: boolean;
+  };
+  const steps = entries
+    .map((e): Step | undefined => {
+      if (e.type === "move") return { file: e.dest, dest: e.src };
+      if (e.type === "copy") return { file: e.dest, dest: e.src, copied: true };
+      if (e.type === "delete") return { file: e.staged, dest: e.path };
+      if (e.type === "link") {
+        return { file: e.staged, dest: e.path, replaces: true };
+      }
+      return undefined;
+    })
+    .filter((s): s is Step => s !== undefined)
+    .reverse();
+
+  stats.scanned = steps.length;
+
+  for (const step of steps) {
+    const { file, dest } = step;
+    try {
+      if (step.copied) {
+        if (!(await exists(file))) {
+          stats.skipped++;
+          logger?.skipped(file);
+          continue;
+        }
+        if (dryRun) {
+          logger?.deleteDryRun(file);
+        } else {
+          await fs.unlink(file);
+          logger?.deleted(file);
+        }
+        stats.moved++;
+        onRevert?.({ file, dest });
+        continue;
+      }
+
+      const [srcThere, destThere] = await Promise.all([
+        exists(file),
+        exists(dest),
+      ]);
+
+      if (!srcThere && destThere) {
+        stats.skipped++;
+        logger?.skipped(dest);
+        continue;
+      }
+      if (!srcThere) throw new Error(`File no longer exists: ${file}`);
+      if (destThere && !step.replaces) {
+        throw new Error(`File already exists: ${dest}`);
+      }
+
+      if (dryRun) {
+        logger?.dryRun(file, dest);
+      } else {
+        if (destThere) await fs.unlink(dest);
+        await safeMove(file, dest);
+        logger?.success(file, dest);
+      }
+      stats.moved++;
+      onRevert?.({ file, dest });
+    } catch (err) {
+      stats.errors.push({ file, error: (err as Error).message });
+      logger?.error(file, dest, err);
+    }
+  }
+
+  if (!dryRun && stats.errors.length === 0) {
+    await appendJournal(journalId, {
+      type: "reverted",
+      at: new Date().toISOString(),
+    });
+    await fs.rm(trashDir(header.root, journalId), {
+      recursive: true,
+      force: true,
+    });
+    logger?.info(`Journal ${journalId} reverted`);
+  }
+
+  return stats;
+}
+
+/**
+ * List the journals recorded on this machine, newest first.
+ */
+export async function listJournals(): Promise<JournalInfo[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(journalDir());
+  } catch {
+    return [];
+  }
+
+  const infos: JournalInfo[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".jsonl")) continue;
+    try {
+      const { header, entries } = await readJournal(
+        sp.basename(name, ".jsonl")
+      );
+      infos.push({
+        id: header.id,
+        operation: header.operation,
+        root: header.root,
+        createdAt: header.createdAt,
+        entries: entries.filter((e) => e.type !== "reverted").length,
+        reverted: entries.some((e) => e.type === "reverted"),
+      });
+    } catch {
+      // ignore unreadable journals
+    }
+  }
+
+  return infos.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Permanently delete the files a journal staged for deletion, then drop the
+ * journal itself. After purging, the operation can no longer be reverted.
+ *
+ * @returns Number of staged files that were removed
+ */
+export async function purgeJournal(journalId: string): Promise<number> {
+  const { header, entries } = await readJournal(journalId);
+  const reverted = entries.some((e) => e.type === "reverted");
+  const staged = reverted
+    ? 0
+    : entries.filter((e) => e.type === "delete" || e.type === "link").length;
+
+  await fs.rm(trashDir(header.root, journalId), {
+    recursive: true,
+    force: true,
+  });
+  await fs.unlink(journalFile(journalId));
+  return staged;
+}
@@ -0,0 +1,380 @@
+import * as sp from "node:path";
+import { captureTypes, mediaTypes } from "../../utils/names";
+import { normalizeExt, normalizePath, parseSize } from "../../utils/helper";
+import { detectFileType, extensionMatches } from "../../utils/filetype";
+import { globToRegExp, matchGlob } from "../../utils/glob";
+import { readCaptureDate } from "../../utils/metadata";
+import {
+  ArrangeOptions,
+  ArrangeRule,
+  FileNode,
+  MediaRules,
+  TypeMismatch,
+} from "../../utils/types";
+
+function resolveRules(user?: MediaRules): MediaRules {
+  const system = mediaTypes;
+  if (!user) return system;
+  // create a copy of sysyem media types for safe edit
+  const result: MediaRules = structuredClone(system);
+
+  // Remove user extensions from all system folders
+  const token = new Set(
+    Object.values(user)
+      .flat()
+      .map((e) => e.toLowerCase())
+  );
+
+  for (const folder in result) {
+    result[folder] = result[folder].filter((ext) => !token.has(ext));
+  }
+
+  //   Apply rules in result
+  for (const [folder, exts] of Object.entries(user)) {
+    result[folder] = exts;
+  }
+  return result;
+}
+
+function buildExtMap(rules: MediaRules): Map<string, string> {
+  const map = new Map<string, string>();
+
+  for (const [folder, exts] of Object.entries(rules)) {
+    for (const ext of exts) {
+      map.set(normalizeExt(ext), folder);
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Map an extension to the category folder arrange would file it under, or
+ * "others". Rule lists only add routes, so they leave the default categories.
+ */
+export function createCategorizer(rules?: MediaRules | ArrangeRule[]) {
+  const extMap = buildExtMap(
+    resolveRules(Array.isArray(rules) ? undefined : rules)
+  );
+  return (ext: string) => extMap.get(normalizeExt(ext)) ?? "others";
+}
+
+const TOKENS = ["category", "ext", "name", "dir", "yyyy", "mm", "dd"] as const;
+type Token = (typeof TOKENS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_DATE_FOLDER = "{yyyy}/{yyyy}-{mm}-{dd}";
+
+interface RouteContext {
+  file: FileNode;
+  /** Source folder relative to the arranged root ("" for the root). */
+  dir: string;
+  category: string;
+  date: Date;
+}
+
+interface CompiledRule {
+  label: string;
+  priority: number;
+  exts?: Set<string>;
+  /** True when the rule only matches on extension. */
+  extOnly: boolean;
+  /** Conditions, serialised, to spot rules that can never both apply. */
+  signature: string;
+  dest: string;
+  test(ctx: RouteContext): boolean;
+}
+
+const toList = <T>(value: T | readonly T[] | undefined): T[] =>
+  value === undefined ? [] : ([] as T[]).concat(value as T[]);
+
+function checkTemplate(label: string, dest: string) {
+  for (const [, token] of dest.matchAll(/\{([^}]*)\}/g)) {
+    if (!TOKENS.includes(token as Token)) {
+      throw new Error(
+        `Rule ${label}: unknown token {${token}} in "${dest}" (use ${TOKENS.map(
+          (t) => `{${t}}`
+        ).join(" ")})`
+      );
+    }
+  }
+  if (sp.isAbsolute(dest) || dest.split(/[\\/]/).includes("..")) {
+    throw new Error(`Rule ${label}: dest "${dest}" must stay inside the root`);
+  }
+}
+
+function compileRule(rule: ArrangeRule, index: number): CompiledRule {
+  const label = rule.name ? `"${rule.name}"` : `#${index + 1}`;
+  if (typeof rule.dest !== "string" || rule.dest.trim() === "") {
+    throw new Error(`Rule ${label}: dest is required`);
+  }
+  checkTemplate(label, rule.dest);
+
+  const exts = toList(rule.ext).map(normalizeExt);
+  const patterns = toList(rule.pattern).map((p) => {
+    globToRegExp(p); // fail early on malformed globs
+    return p;
+  });
+  const dirs = toList(rule.dir);
+  const regex =
+    rule.regex === undefined
+      ? undefined
+      : typeof rule.regex === "string"
+      ? new RegExp(rule.regex)
+      : rule.regex;
+  const minSize =
+    rule.minSize === undefined ? undefined : parseSize(rule.minSize);
+  const maxSize =
+    rule.maxSize === undefined ? undefined : parseSize(rule.maxSize);
+  const { olderThanDays, newerThanDays } = rule;
+
+  if (minSize !== undefined && maxSize !== undefined && minSize > maxSize) {
+    throw new Error(`Rule ${label}: minSize is larger than maxSize`);
+  }
+
+  const extSet = exts.length > 0 ? new Set(exts) : undefined;
+  const extOnly =
+    !!extSet &&
+    patterns.length === 0 &&
+    dirs.length === 0 &&
+    !regex &&
+    minSize === undefined &&
+    maxSize === undefined &&
+    olderThanDays === undefined &&
+    newerThanDays === undefined;
+
+  return {
+    label,
+    priority: rule.priority ?? 0,
+    exts: extSet,
+    extOnly,
+    signature: JSON.stringify([
+      [...exts].sort(),
+      patterns,
+      dirs,
+      regex?.toString(),
+      minSize,
+      maxSize,
+      olderThanDays,
+      newerThanDays,
+    ]),
+    dest: rule.dest,
+    test({ file, dir }) {
+      if (extSet && !extSet.has(file.ext)) return false;
+      if (minSize !== undefined && file.size < minSize) return false;
+      if (maxSize !== undefined && file.size > maxSize) return false;
+      if (regex && !regex.test(file.name)) return false;
+
+      if (olderThanDays !== undefined || newerThanDays !== undefined) {
+        if (!file.mtime) return false;
+        const age = (Date.now() - file.mtime.getTime()) / DAY_MS;
+        if (olderThanDays !== undefined && age < olderThanDays) return false;
+        if (newerThanDays !== undefined && age > newerThanDays) return false;
+      }
+
+      if (patterns.length > 0) {
+        const rel = dir ? `${dir}/${file.name}` : file.name;
+        if (!patterns.some((p) => matchGlob(rel, p))) return false;
+      }
+      if (dirs.length > 0) {
+        if (
+          !dirs.some((d) => globToRegExp(d.replace(/^\/|\/$/g, "")).test(dir))
+        ) {
+          return false;
+        }
+      }
+      return true;
+    },
+  };
+}
+
+/**
+ * Reject rule sets where two rules of the same priority compete for the same
+ * files: extension-only rules sharing an extension, or rules with identical
+ * conditions. Either way one of them could never apply.
+ */
+function checkConflicts(rules: CompiledRule[]) {
+  const byPriority = new Map<number, CompiledRule[]>();
+  for (const rule of rules) {
+    if (!byPriority.has(rule.priority)) byPriority.set(rule.priority, []);
+    byPriority.get(rule.priority)!.push(rule);
+  }
+
+  for (const group of byPriority.values()) {
+    const owners = new Map<string, CompiledRule>();
+    const signatures = new Map<string, CompiledRule>();
+
+    for (const rule of group) {
+      if (rule.extOnly) {
+        for (const ext of rule.exts!) {
+          const owner = owners.get(ext);
+          if (owner) {
+            throw new Error(
+              `Extension "${ext}" assigned twice (rules ${owner.label} and ${rule.label})`
+            );
+          }
+          owners.set(ext, rule);
+        }
+        continue;
+      }
+
+      const same = signatures.get(rule.signature);
+      if (same) {
+        throw new Error(
+          `Rules ${same.label} and ${rule.label} have the same conditions and priority`
+        );
+      }
+      signatures.set(rule.signature, rule);
+    }
+  }
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function render(template: string, ctx: RouteContext): string {
+  const { file, date } = ctx;
+  const values: Record<Token, string> = {
+    category: ctx.category,
+    ext: file.ext || "noext",
+    name: file.ext ? sp.basename(file.name, `.${file.ext}`) : file.name,
+    dir: ctx.dir,
+    yyyy: String(date.getFullYear()),
+    mm: pad(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+  };
+  return template.replace(/\{([a-z]+)\}/g, (_, t: Token) => values[t]);
+}
+
+/**
+ * Build the routing function used by arrange.
+ *
+ * Rules are tried by descending `priority`, then in the order given; the
+ * first match decides the destination. A `MediaRules` map (merged over the
+ * default `mediaTypes`) is compiled into one extension rule per folder that
+ * runs after every explicit rule. Files nothing matches go to `others`.
+ *
+ * With `groupBy: "date"`, photos and videos go to `Photos/<dateFolder>` and
+ * `Videos/<dateFolder>` after the explicit rules and before the categories.
+ * Date tokens use the `date` passed to the route (the capture date), else mtime.
+ *
+ * The returned function also carries `roots`: the folder names directly under
+ * the arranged root that rules route into.
+ */
+export function createRouter(
+  rules?: MediaRules | ArrangeRule[],
+  options: Pick<ArrangeOptions, "groupBy" | "dateFolder"> = {}
+) {
+  const { groupBy = "type", dateFolder = DEFAULT_DATE_FOLDER } = options;
+  const explicit = Array.isArray(rules) ? rules : [];
+  const resolved = resolveRules(Array.isArray(rules) ? undefined : rules);
+  const extMap = buildExtMap(resolved);
+
+  const compiled = explicit.map(compileRule);
+  // An override can take every extension from a default folder; a rule with
+  // no extensions would match everything, so such folders get none
+  const categories = Object.entries(resolved)
+    .filter(([, exts]) => exts.length > 0)
+    .map(([folder, exts], i) =>
+      compileRule(
+        {
+          name: `category:${folder}`,
+          ext: exts,
+          dest: folder,
+          priority: Number.NEGATIVE_INFINITY,
+        },
+        explicit.length + i
+      )
+    );
+  checkConflicts([...compiled, ...categories]);
+
+  if (groupBy !== "type" && groupBy !== "date") {
+    throw new Error(`Unknown groupBy "${groupBy}" (use "type" or "date")`);
+  }
+  const byDate =
+    groupBy === "date"
+      ? Object.entries(captureTypes).map(([folder, exts]) =>
+          compileRule(
+            {
+              name: `date:${folder}`,
+              ext: exts,
+              dest: `${folder}/${dateFolder}`,
+            },
+            explicit.length
+          )
+        )
+      : [];
+
+  const ordered = [
+    ...compiled
+      .map((rule, order) => ({ rule, order }))
+      .sort((a, b) => b.rule.priority - a.rule.priority || a.order - b.order)
+      .map(({ rule }) => rule),
+    ...byDate,
+    ...categories,
+  ];
+
+  // Top-level folders files can land in. Destinations starting with a token
+  // other than {category} cannot be listed up front.
+  const roots = new Set<string>(["others"]);
+  for (const rule of ordered) {
+    const first = rule.dest.split(/[\\/]/).find((s) => s && s !== ".");
+    if (first === "{category}") {
+      Object.keys(resolved).forEach((folder) => roots.add(folder));
+    } else if (first && !first.includes("{")) {
+      roots.add(first);
+    }
+  }
+
+  const route = (file: FileNode, baseDir: string, date?: Date) => {
+    const rel = normalizePath(sp.relative(baseDir, file.dir));
+    const ctx: RouteContext = {
+      file,
+      dir: rel === "." ? "" : rel,
+      category: extMap.get(file.ext) ?? "others",
+      date: date ?? file.mtime ?? new Date(),
+    };
+
+    const rule = ordered.find((r) => r.test(ctx));
+    const folder = rule ? render(rule.dest, ctx) : "others";
+    const destDir = normalizePath(sp.join(baseDir, folder));
+    const destPath = normalizePath(sp.join(destDir, file.name));
+    return { file, destDir, destPath, rule: rule?.label };
+  };
+  return Object.assign(route, { roots: roots as ReadonlySet<string> });
+}
+
+/**
+ * Check a file's content against its extension. When the extension is
+ * missing or disagrees with the magic bytes, the returned node carries the
+ * detected extension so the router files it by content.
+ */
+export async function detectNode(
+  file: FileNode
+): Promise<{ file: FileNode; mismatch?: TypeMismatch }> {
+  const type = await detectFileType(file.fullPath);
+  if (!type || extensionMatches(file.ext, type)) return { file };
+
+  return {
+    file: { ...file, ext: type.ext },
+    mismatch: { file: file.fullPath, ext: file.ext, detected: type.ext },
+  };
+}
+
+/** Whether arrange's "date" mode files this extension by capture date. */
+export function isCaptureMedia(ext: string): boolean {
+  return Object.values(captureTypes).some((exts) => exts.includes(ext));
+}
+
+/**
+ * Capture date of a photo or video, or undefined when the file has none
+ * (or cannot be read) and its mtime should be used instead.
+ */
+export async function captureDate(file: FileNode): Promise<Date | undefined> {
+  if (!isCaptureMedia(file.ext)) return undefined;
+  try {
+    return await readCaptureDate(file.fullPath);
+  } catch {
+    return undefined;
+  }
+}
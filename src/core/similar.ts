@@ -0,0 +1,175 @@
+import * as sp from "node:path";
+import fs from "fs/promises";
+import { isDirectory } from "../../utils/helper";
+import { resolveLogger } from "../../utils/logger";
+import { createPathFilter } from "../../utils/glob";
+import { mapLimit } from "../../utils/pool";
+import {
+  decodeImage,
+  dHash,
+  hammingDistance,
+  UNSUPPORTED_IMAGE,
+} from "../../utils/image";
+import {
+  FileNode,
+  SimilarImage,
+  SimilarImagesOptions,
+  SimilarImagesResult,
+} from "../../utils/types";
+import { chooseCanonical } from "./canonical";
+import { walk } from "./handlers";
+
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".jpe", ".jfif"];
+
+// Group indexes whose hashes are within `threshold` of each other, following
+// chains (a ~ b and b ~ c puts a, b and c together)
+function cluster(hashes: string[], threshold: number): number[][] {
+  const parent = hashes.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+  for (let i = 0; i < hashes.length; i++) {
+    for (let j = i + 1; j < hashes.length; j++) {
+      if (hammingDistance(hashes[i], hashes[j]) <= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  hashes.forEach((_, i) => {
+    const r = find(i);
+    if (!groups.has(r)) groups.set(r, []);
+    groups.get(r)!.push(i);
+  });
+  return Array.from(groups.values()).filter((g) => g.length > 1);
+}
+
+/**
+ * Find pictures that look the same even though their bytes differ: re-saved,
+ * re-compressed or resized copies that `dedupe()` can't see.
+ *
+ * PNG and baseline JPEG files are decoded (in pure TypeScript) and reduced to
+ * a 64-bit difference hash; images whose hashes differ in at most
+ * `threshold` bits end up in one group. Nothing is changed on disk. Each
+ * group keeps one image chosen with the dedupe strategies, or
+ * "highest-resolution", and reports how similar every other image is to it.
+ *
+ * @param root - Directory to scan (recursively)
+ * @param options - threshold, strategy, canonicalPath, exclude, concurrency and log
+ * @returns Groups in the `dedupe()` shape, plus images that couldn't be decoded
+ *
+ * @throws Error if root is not a directory or threshold / concurrency are out of range
+ *
+ * @example
+ * ```typescript
+ * const { groups } = await findSimilarImages("/photos", {
+ *   threshold: 8,
+ *   strategy: "highest-resolution",
+ * });
+ * for (const { canonical, duplicates } of groups) {
+ *   console.log(canonical.fullPath, duplicates.map((d) => d.similarity));
+ * }
+ * ```
+ */
+export async function findSimilarImages(
+  root: string,
+  options: SimilarImagesOptions = {}
+): Promise<SimilarImagesResult> {
+  const {
+    threshold = 10,
+    concurrency = 4,
+    log: enabled = false,
+    onGroup,
+    onError,
+  } = options;
+
+  const isDir = await isDirectory(root);
+  if (!isDir) throw new Error(`Path '${root}' is not a directory`);
+  if (!Number.isInteger(threshold) || threshold < 0 || threshold > 64) {
+    throw new Error("threshold must be a whole number from 0 to 64");
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("concurrency must be a whole number of 1 or more");
+  }
+
+  const logger = resolveLogger(enabled);
+  const result: SimilarImagesResult = {
+    scannedFiles: 0,
+    unsupported: [],
+    duplicateGroups: 0,
+    spaceSaved: 0,
+    errors: [],
+    groups: [],
+  };
+
+  const excluded = await createPathFilter(root, options);
+
+  const { files, errors } = await walk(root, { skip: excluded });
+  result.errors.push(...errors);
+
+  const candidates = files.filter((f) =>
+    IMAGE_EXTENSIONS.includes(sp.extname(f.name).toLowerCase())
+  );
+  result.scannedFiles = candidates.length;
+
+  const decoded = await mapLimit(
+    candidates,
+    concurrency,
+    async (file: FileNode): Promise<SimilarImage | undefined> => {
+      try {
+        const image = decodeImage(await fs.readFile(file.fullPath));
+        return {
+          ...file,
+          width: image.width,
+          height: image.height,
+          phash: dHash(image),
+          similarity: 1,
+        };
+      } catch (err) {
+        const message = (err as Error).message;
+        if (message.startsWith(UNSUPPORTED_IMAGE)) {
+          result.unsupported.push(file.fullPath);
+          logger?.skipped(file.fullPath);
+        } else {
+          result.errors.push({ file: file.fullPath, error: message });
+          logger?.errorMessage(`${file.fullPath}: ${message}`);
+          onError?.(file, err as Error);
+        }
+        return undefined;
+      }
+    }
+  );
+  const images = decoded.filter((i): i is SimilarImage => i !== undefined);
+
+  for (const members of cluster(
+    images.map((i) => i.phash),
+    threshold
+  )) {
+    const group = members.map((i) => images[i]);
+    const canonical = chooseCanonical(group, options);
+    const duplicates = group
+      .filter((i) => i !== canonical)
+      .map((image) => ({
+        ...image,
+        similarity: 1 - hammingDistance(canonical.phash, image.phash) / 64,
+      }))
+      .sort((a, b) => b.similarity - a.similarity);
+    const spaceSaved = duplicates.reduce((sum, d) => sum + d.size, 0);
+
+    logger?.canonical(canonical.fullPath);
+    duplicates.forEach((d) => logger?.similar(d.fullPath, d.similarity));
+
+    result.groups.push({
+      hash: canonical.phash,
+      canonical,
+      duplicates,
+      spaceSaved,
+    });
+    result.duplicateGroups++;
+    result.spaceSaved += spaceSaved;
+    onGroup?.(canonical, duplicates);
+  }
+
+  return result;
+}
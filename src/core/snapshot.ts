@@ -0,0 +1,339 @@
+import * as sp from "node:path";
+import fs from "fs/promises";
+import { isDirectory, normalizePath } from "../../utils/helper";
+import { createPathFilter } from "../../utils/glob";
+import { hashFile } from "../../utils/hash";
+import { FM_DIR } from "../../utils/journal";
+import { resolveLogger } from "../../utils/logger";
+import { mapLimit } from "../../utils/pool";
+import {
+  Snapshot,
+  SnapshotChange,
+  SnapshotDiff,
+  SnapshotEntry,
+  SnapshotMove,
+  SnapshotOptions,
+  SnapshotResult,
+} from "../../utils/types";
+import { walkStream } from "./handlers";
+
+const VERSION = 1;
+
+// On disk every file is a [path, size, mtimeMs, hash?] row, which keeps
+// snapshots of big trees a fraction of the size of an object per file
+type Row = [string, number, number, string?];
+
+// A parsed snapshot file, before it has been checked
+interface SnapshotFile {
+  version?: unknown;
+  root?: unknown;
+  createdAt?: unknown;
+  algorithm?: unknown;
+  files?: unknown;
+}
+
+const isRow = (row: unknown): row is Row =>
+  Array.isArray(row) &&
+  (row.length === 3 || row.length === 4) &&
+  typeof row[0] === "string" &&
+  typeof row[1] === "number" &&
+  typeof row[2] === "number" &&
+  (row[3] === undefined || typeof row[3] === "string");
+
+const byPath = (a: SnapshotEntry, b: SnapshotEntry) =>
+  a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+
+/** Where `snapshot()` writes when no `output` is given. */
+export function defaultSnapshotFile(root: string): string {
+  const stamp = new Date().toISOString().replace(/[-:.TZ]/g, "");
+  return normalizePath(sp.join(root, FM_DIR, "snapshots", `${stamp}.json`));
+}
+
+/** Snapshots saved at the default place under `root`, oldest first. */
+export async function listSnapshots(root: string): Promise<string[]> {
+  const dir = sp.join(root, FM_DIR, "snapshots");
+  const names = await fs.readdir(dir).catch(() => [] as string[]);
+  return names
+    .filter((name) => /^\d+\.json$/.test(name))
+    .sort()
+    .map((name) => normalizePath(sp.join(dir, name)));
+}
+
+/**
+ * Read a snapshot written by `snapshot()`.
+ *
+ * @throws Error if the file is missing or isn't a snapshot
+ */
+export async function loadSnapshot(file: string): Promise<Snapshot> {
+  let raw: SnapshotFile;
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf8")) ?? {};
+  } catch (err) {
+    throw new Error(
+      `Cannot read snapshot '${file}': ${(err as Error).message}`
+    );
+  }
+  if (
+    typeof raw !== "object" ||
+    raw.version !== VERSION ||
+    typeof raw.root !== "string" ||
+    typeof raw.createdAt !== "string" ||
+    !Array.isArray(raw.files) ||
+    !raw.files.every(isRow)
+  ) {
+    throw new Error(`'${file}' is not a snapshot`);
+  }
+
+  return {
+    version: raw.version,
+    root: raw.root,
+    createdAt: raw.createdAt,
+    algorithm: typeof raw.algorithm === "string" ? raw.algorithm : undefined,
+    files: raw.files.map(([path, size, mtimeMs, hash]) =>
+      hash ? { path, size, mtimeMs, hash } : { path, size, mtimeMs }
+    ),
+  };
+}
+
+async function saveSnapshot(file: string, snapshot: Snapshot) {
+  const rows = snapshot.files.map(
+    ({ path, size, mtimeMs, hash }): Row =>
+      hash ? [path, size, mtimeMs, hash] : [path, size, mtimeMs]
+  );
+  // Write then rename, so an interrupted run never leaves half a snapshot
+  await fs.mkdir(sp.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify({ ...snapshot, files: rows }));
+  await fs.rename(tmp, file);
+}
+
+const resolveSnapshot = (snapshot: Snapshot | string) =>
+  typeof snapshot === "string" ? loadSnapshot(snapshot) : snapshot;
+
+/**
+ * Record what a tree looks like now: the path, size and mtime of every file,
+ * and with `hash` a digest of its content.
+ *
+ * Snapshots are written to `<root>/.fm/snapshots/` unless `output` says
+ * otherwise (every operation skips `.fm`, so they never show up in one
+ * another). Compare two with `diffSnapshots()`. Passing the last snapshot as
+ * `previous` only hashes the files that changed since.
+ *
+ * @param root - Directory to snapshot (recursively)
+ * @param options - output, hash, algorithm, concurrency, previous, exclude and log
+ * @returns The snapshot and the file it was written to
+ *
+ * @throws Error if root is not a directory, concurrency is out of range or
+ *   the snapshot can't be written
+ *
+ * @example
+ * ```typescript
+ * const { file } = await snapshot("/srv/share", { hash: true });
+ * // ...a week later
+ * const { snapshot: now } = await snapshot("/srv/share", { previous: file });
+ * const diff = await diffSnapshots(file!, now);
+ * ```
+ */
+export async function snapshot(
+  root: string,
+  options: SnapshotOptions = {}
+): Promise<SnapshotResult> {
+  const {
+    algorithm = "sha256",
+    concurrency = 4,
+    log: enabled = false,
+    onError,
+    onProgress,
+    signal,
+  } = options;
+
+  const isDir = await isDirectory(root);
+  if (!isDir) throw new Error(`Path '${root}' is not a directory`);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("concurrency must be a whole number of 1 or more");
+  }
+
+  const logger = resolveLogger(enabled);
+  const previous = options.previous
+    ? await resolveSnapshot(options.previous)
+    : undefined;
+  const hash = options.hash ?? previous?.algorithm !== undefined;
+  const realRoot = normalizePath(await fs.realpath(root));
+  const excluded = await createPathFilter(root, options);
+
+  const result: SnapshotResult = {
+    snapshot: {
+      version: VERSION,
+      root: realRoot,
+      createdAt: new Date().toISOString(),
+      algorithm: hash ? algorithm : undefined,
+      files: [],
+    },
+    reused: 0,
+    errors: [],
+  };
+
+  const files: { entry: SnapshotEntry; fullPath: string }[] = [];
+  for await (const file of walkStream(root, {
+    skip: excluded,
+    onProgress,
+    signal,
+    onError: (e) => result.errors.push(e),
+  })) {
+    const entry: SnapshotEntry = {
+      path: normalizePath(sp.relative(realRoot, file.fullPath)),
+      size: file.size,
+      mtimeMs: file.mtime?.getTime() ?? 0,
+    };
+    files.push({ entry, fullPath: file.fullPath });
+  }
+
+  if (hash) {
+    // Hashes of an earlier snapshot still hold while size and mtime do
+    const known = new Map<string, SnapshotEntry>();
+    if (previous?.algorithm === algorithm) {
+      previous.files.forEach((e) => e.hash && known.set(e.path, e));
+    }
+
+    await mapLimit(files, concurrency, async ({ entry, fullPath }) => {
+      const before = known.get(entry.path);
+      if (
+        before &&
+        before.size === entry.size &&
+        before.mtimeMs === entry.mtimeMs
+      ) {
+        entry.hash = before.hash;
+        result.reused++;
+        return;
+      }
+      try {
+        logger?.hashing(`Hashing ${fullPath}`);
+        entry.hash = await hashFile(fullPath, algorithm);
+      } catch (err) {
+        result.errors.push({
+          file: fullPath,
+          error: (err as Error).message,
+        });
+        logger?.errorMessage((err as Error).message);
+        onError?.(fullPath, err as Error);
+      }
+    });
+  }
+
+  result.snapshot.files = files.map((f) => f.entry).sort(byPath);
+
+  if (options.output !== false) {
+    const file = options.output ?? defaultSnapshotFile(root);
+    await saveSnapshot(file, result.snapshot);
+    result.file = normalizePath(file);
+    logger?.info(
+      `Snapshot of ${result.snapshot.files.length} files written to ${result.file}`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Compare two snapshots (objects or the files they were written to). Paths
+ * are matched relative to each snapshot's root, so a tree can be compared
+ * with a copy of itself elsewhere.
+ *
+ * A file that exists in both is unchanged when its hash matches (when both
+ * snapshots have hashes) or else when size and mtime match; otherwise it is
+ * `grown` or `modified`. With hashes on both sides, a removed file whose
+ * content turns up under a new path is reported as `moved` rather than as a
+ * removal plus an addition.
+ */
+export async function diffSnapshots(
+  a: Snapshot | string,
+  b: Snapshot | string
+): Promise<SnapshotDiff> {
+  const before = await resolveSnapshot(a);
+  const after = await resolveSnapshot(b);
+  const hashed =
+    before.algorithm !== undefined && before.algorithm === after.algorithm;
+
+  const diff: SnapshotDiff = {
+    added: [],
+    removed: [],
+    grown: [],
+    modified: [],
+    moved: [],
+    unchanged: 0,
+    sizeDelta: 0,
+  };
+
+  const old = new Map(before.files.map((e) => [e.path, e]));
+  for (const entry of after.files) {
+    diff.sizeDelta += entry.size;
+    const prev = old.get(entry.path);
+    if (!prev) {
+      diff.added.push(entry);
+      continue;
+    }
+    old.delete(entry.path);
+
+    const same =
+      hashed && prev.hash && entry.hash
+        ? prev.hash === entry.hash
+        : prev.size === entry.size && prev.mtimeMs === entry.mtimeMs;
+    if (same) {
+      diff.unchanged++;
+      continue;
+    }
+    const change: SnapshotChange = {
+      path: entry.path,
+      before: prev,
+      after: entry,
+      sizeDelta: entry.size - prev.size,
+    };
+    (change.sizeDelta > 0 ? diff.grown : diff.modified).push(change);
+  }
+  before.files.forEach((e) => (diff.sizeDelta -= e.size));
+  diff.removed = Array.from(old.values());
+
+  if (hashed) {
+    // Pair removed and added files by content, preferring the same file name
+    const added = new Map<string, SnapshotEntry[]>();
+    for (const entry of diff.added) {
+      if (!entry.hash) continue;
+      if (!added.has(entry.hash)) added.set(entry.hash, []);
+      added.get(entry.hash)!.push(entry);
+    }
+
+    const moved = new Set<SnapshotEntry>();
+    const removed: SnapshotEntry[] = [];
+    for (const entry of diff.removed) {
+      const candidates = entry.hash ? added.get(entry.hash) : undefined;
+      if (!candidates?.length) {
+        removed.push(entry);
+        continue;
+      }
+      const name = sp.posix.basename(entry.path);
+      const at = Math.max(
+        0,
+        candidates.findIndex((c) => sp.posix.basename(c.path) === name)
+      );
+      const [target] = candidates.splice(at, 1);
+      moved.add(target);
+      diff.moved.push({ from: entry.path, to: target.path, entry: target });
+    }
+    diff.removed = removed;
+    diff.added = diff.added.filter((e) => !moved.has(e));
+  }
+
+  return diff;
+}
+
+/** The paths a diff says need looking at again: added, changed and moved-to. */
+export function changedPaths(diff: SnapshotDiff): string[] {
+  return ([] as string[])
+    .concat(
+      diff.added.map((e) => e.path),
+      diff.grown.map((c) => c.path),
+      diff.modified.map((c) => c.path),
+      diff.moved.map((m: SnapshotMove) => m.to)
+    )
+    .sort();
+}
@@ -0,0 +1,235 @@
+import * as sp from "node:path";
+import fs from "fs/promises";
+import { Stats } from "node:fs";
+import { isConfigFile } from "../../utils/config";
+import { isDirectory, normalizePath } from "../../utils/helper";
+import { createPathFilter } from "../../utils/glob";
+import { hashFile } from "../../utils/hash";
+import { createJournal } from "../../utils/journal";
+import { createConflictResolver } from "../../utils/conflict";
+import { resolveLogger } from "../../utils/logger";
+import { FileNode, SyncOptions, SyncStats } from "../../utils/types";
+import { walkStream } from "./handlers";
+
+const isInside = (path: string, dir: string) => {
+  const rel = sp.relative(dir, path);
+  return rel === "" || (!rel.startsWith("..") && !sp.isAbsolute(rel));
+};
+
+// Same size and mtime, or with `checksum` the same content
+async function sameFile(
+  file: FileNode,
+  dest: string,
+  current: Stats,
+  checksum: boolean,
+  algorithm: string
+): Promise<boolean> {
+  if (file.size !== current.size) return false;
+  if (!checksum) return file.mtime?.getTime() === current.mtime.getTime();
+  const [a, b] = await Promise.all([
+    hashFile(file.fullPath, algorithm),
+    hashFile(dest, algorithm),
+  ]);
+  return a === b;
+}
+
+/**
+ * Make `target` hold the same files as `source`.
+ *
+ * Files missing from the target are copied over; files that differ (by size
+ * and mtime, or by content with `checksum`) go through the conflict
+ * strategy, which for sync defaults to "overwrite": "keep-newer" only
+ * replaces older target files, "skip" never touches existing ones and
+ * "rename" keeps both. Every copy is written to a temporary file, checked
+ * against its source and renamed into place, so the target never holds half
+ * a file, and keeps the mtime of its source. With `delete`, target files the source doesn't have are
+ * removed; folders and config files are left in place.
+ *
+ * Replaced and deleted target files are staged in `<target>/.fm/trash`, so
+ * `revert` puts the target back as it was. Deletion is skipped altogether
+ * when part of the source couldn't be read, rather than treating the files
+ * there as gone.
+ *
+ * @param source - Directory to copy from (recursively); never modified
+ * @param target - Directory to bring up to date; created if missing
+ * @param options - delete, checksum, conflict, exclude, dryRun and log
+ * @returns OperationStats where `moved` counts copied files, plus a breakdown
+ *
+ * @throws Error if source is not a directory, target is a file, or source
+ *   lies inside target
+ *
+ * @example
+ * ```typescript
+ * // Mirror a project onto a backup drive, removing what was deleted
+ * const stats = await sync("/home/projects", "/mnt/backup/projects", {
+ *   delete: true,
+ *   exclude: ["node_modules/"],
+ * });
+ * ```
+ */
+export async function sync(
+  source: string,
+  target: string,
+  options: SyncOptions = {}
+): Promise<SyncStats> {
+  const {
+    delete: propagate = false,
+    checksum = false,
+    algorithm = "sha256",
+    dryRun = false,
+    log: enabled = false,
+    journal: journaled = true,
+    onCopy,
+    onDelete,
+    onError,
+    onProgress,
+    signal,
+  } = options;
+
+  const isDir = await isDirectory(source);
+  if (!isDir) throw new Error(`Path '${source}' is not a directory`);
+
+  const from = normalizePath(await fs.realpath(source));
+  const to = normalizePath(
+    await fs.realpath(target).catch(() => sp.resolve(target))
+  );
+  const targetIsDir = await fs.stat(to).then(
+    (s) => s.isDirectory(),
+    () => undefined
+  );
+  if (targetIsDir === false) {
+    throw new Error(`Path '${target}' is not a directory`);
+  }
+  if (isInside(from, to)) {
+    throw new Error(`Source '${source}' must not be inside '${target}'`);
+  }
+
+  const resolveConflict = createConflictResolver({
+    ...options,
+    conflict: options.conflict ?? "overwrite",
+    // An identical target file is unchanged, never a reason to touch the source
+    checkIdentical: false,
+  });
+  const journal = createJournal("sync", to, journaled);
+  const logger = resolveLogger(enabled);
+
+  const stats: SyncStats = {
+    scanned: 0,
+    moved: 0,
+    skipped: 0,
+    errors: [],
+    added: 0,
+    updated: 0,
+    deleted: 0,
+    unchanged: 0,
+    bytesCopied: 0,
+  };
+
+  // Paths below the target that belong there after this run
+  const wanted = new Set<string>();
+  let unreadable = false;
+
+  const excluded = await createPathFilter(source, options);
+  for await (const file of walkStream(source, {
+    // A target inside the source is not part of it
+    skip: (full, isDir) => (isDir && full === to) || excluded(full, isDir),
+    onProgress,
+    signal,
+    onError: (e) => {
+      unreadable = true;
+      stats.errors.push(e);
+    },
+  })) {
+    stats.scanned++;
+    const src = file.fullPath;
+    const rel = normalizePath(sp.relative(from, src));
+    let dest = normalizePath(sp.join(to, rel));
+    wanted.add(dest);
+
+    try {
+      const current = await fs.stat(dest).catch(() => undefined);
+      if (current?.isDirectory()) {
+        throw new Error(`'${dest}' is a folder`);
+      }
+      if (
+        current &&
+        (await sameFile(file, dest, current, checksum, algorithm))
+      ) {
+        stats.unchanged++;
+        stats.skipped++;
+        continue;
+      }
+
+      const decision = await resolveConflict(src, dest);
+      dest = decision.dest;
+      wanted.add(dest);
+      if (decision.resolution) {
+        (stats.conflicts ??= []).push({
+          file: src,
+          dest,
+          resolution: decision.resolution,
+        });
+        logger?.conflict(src, dest, decision.resolution);
+      }
+      if (decision.action === "skip") {
+        stats.skipped++;
+        continue;
+      }
+
+      if (!dryRun) await journal.copy(src, dest);
+      logger?.copied(src, dest, dryRun);
+      if (decision.action === "replace") stats.updated++;
+      else stats.added++;
+      stats.moved++;
+      stats.bytesCopied += file.size;
+      onCopy?.(src, dest);
+    } catch (err) {
+      stats.errors.push({ file: src, error: (err as Error).message });
+      logger?.error(src, dest, err);
+      onError?.(src, err as Error);
+    }
+  }
+
+  if (propagate && unreadable) {
+    logger?.warn(
+      "Some of the source could not be read: nothing was deleted from the target"
+    );
+  } else if (propagate && targetIsDir) {
+    const excludedTarget = await createPathFilter(to, options);
+    // Collected first, so staging files doesn't disturb the walk
+    const extra: FileNode[] = [];
+    for await (const file of walkStream(to, {
+      skip: excludedTarget,
+      onProgress,
+      signal,
+      onError: (e) => stats.errors.push(e),
+    })) {
+      if (!wanted.has(file.fullPath) && !isConfigFile(file.name)) {
+        extra.push(file);
+      }
+    }
+
+    for (const file of extra) {
+      try {
+        if (dryRun) {
+          logger?.deleteDryRun(file.fullPath);
+        } else {
+          await journal.remove(file.fullPath);
+          logger?.deleted(file.fullPath, file.size);
+          onDelete?.(file.fullPath);
+        }
+        stats.deleted++;
+      } catch (err) {
+        stats.errors.push({
+          file: file.fullPath,
+          error: (err as Error).message,
+        });
+        logger?.errorMessage((err as Error).message);
+        onError?.(file.fullPath, err as Error);
+      }
+    }
+  }
+
+  stats.journalId = journal.id;
+  return stats;
+}
@@ -0,0 +1,486 @@
+import * as sp from "node:path";
+import fs from "fs/promises";
+import {
+  formatSize,
+  isDirectory,
+  normalizePath,
+  plural,
+} from "../../utils/helper";
+import { createPathFilter } from "../../utils/glob";
+import {
+  UsageFormat,
+  UsageFormatOptions,
+  UsageNode,
+  UsageOptions,
+  UsageReport,
+  UsageShare,
+} from "../../utils/types";
+import { walkStream } from "./handlers";
+import { createCategorizer } from "./router";
+
+// Running totals per key, turned into a list sorted largest first
+function tally() {
+  const shares = new Map<string, UsageShare>();
+  return {
+    add(name: string, size: number) {
+      if (!shares.has(name)) shares.set(name, { name, size: 0, files: 0 });
+      const share = shares.get(name)!;
+      share.size += size;
+      share.files++;
+    },
+    list: () =>
+      Array.from(shares.values()).sort(
+        (a, b) => b.size - a.size || a.name.localeCompare(b.name)
+      ),
+  };
+}
+
+const parentOf = (path: string) =>
+  path.includes("/") ? sp.posix.dirname(path) : "";
+
+function sortTree(node: UsageNode) {
+  node.children.sort((a, b) => b.size - a.size || a.name.localeCompare(b.name));
+  node.children.forEach(sortTree);
+}
+
+function flattenTree(node: UsageNode): UsageNode[] {
+  return ([] as UsageNode[]).concat(node, ...node.children.map(flattenTree));
+}
+
+/**
+ * Work out where the space under `root` goes before deciding what to clean.
+ *
+ * Sizes are summed per folder into a tree (every folder counts everything
+ * below it), and broken down by category (the `mediaTypes` folders `arrange`
+ * would use) and by extension. Only folders holding files show up. Nothing
+ * is changed on disk; render the report with `formatUsage()`.
+ *
+ * @param root - Directory to analyze (recursively)
+ * @param options - rules, top, exclude, ignoreFile, onProgress and signal
+ * @returns The folder tree, the breakdowns and the `top` largest folders
+ *
+ * @throws Error if root is not a directory or top is not a whole number
+ *
+ * @example
+ * ```typescript
+ * const report = await analyzeUsage("/srv/share", { exclude: ["node_modules"] });
+ * console.log(formatUsage(report, "text", { depth: 2 }));
+ * await fs.writeFile("usage.html", formatUsage(report, "html"));
+ * ```
+ */
+export async function analyzeUsage(
+  root: string,
+  options: UsageOptions = {}
+): Promise<UsageReport> {
+  const { rules, top = 10, onProgress, signal } = options;
+
+  const isDir = await isDirectory(root);
+  if (!isDir) throw new Error(`Path '${root}' is not a directory`);
+  if (!Number.isInteger(top) || top < 0) {
+    throw new Error("top must be a whole number of 0 or more");
+  }
+
+  const categoryOf = createCategorizer(rules);
+  const realRoot = normalizePath(await fs.realpath(root));
+  const excluded = await createPathFilter(root, options);
+
+  const tree: UsageNode = {
+    path: "",
+    name: sp.basename(realRoot) || realRoot,
+    size: 0,
+    files: 0,
+    ownFiles: 0,
+    children: [],
+  };
+  const nodes = new Map<string, UsageNode>([["", tree]]);
+  const node = (path: string): UsageNode => {
+    const found = nodes.get(path);
+    if (found) return found;
+    const parent = node(parentOf(path));
+    const created: UsageNode = {
+      path,
+      name: sp.posix.basename(path),
+      size: 0,
+      files: 0,
+      ownFiles: 0,
+      children: [],
+    };
+    parent.children.push(created);
+    nodes.set(path, created);
+    return created;
+  };
+
+  const categories = tally();
+  const extensions = tally();
+  const report: UsageReport = {
+    root,
+    size: 0,
+    files: 0,
+    dirs: 0,
+    tree,
+    byCategory: [],
+    byExtension: [],
+    largestDirs: [],
+    errors: [],
+  };
+
+  for await (const file of walkStream(root, {
+    skip: excluded,
+    onProgress,
+    signal,
+    onError: (e) => report.errors.push(e),
+  })) {
+    const rel = sp
+      .relative(realRoot, sp.dirname(file.fullPath))
+      .split(sp.sep)
+      .join("/");
+    // Folders reached through a symlink out of the tree count at the root
+    const dir = node(rel.startsWith("..") || sp.isAbsolute(rel) ? "" : rel);
+    dir.ownFiles++;
+    for (let n = dir; ; n = nodes.get(parentOf(n.path))!) {
+      n.size += file.size;
+      n.files++;
+      if (n === tree) break;
+    }
+
+    categories.add(categoryOf(file.ext), file.size);
+    extensions.add(file.ext, file.size);
+  }
+
+  sortTree(tree);
+  const dirs = flattenTree(tree);
+  report.size = tree.size;
+  report.files = tree.files;
+  report.dirs = dirs.length;
+  report.byCategory = categories.list();
+  report.byExtension = extensions.list();
+  report.largestDirs = dirs
+    .slice(1)
+    .sort((a, b) => b.size - a.size || a.path.localeCompare(b.path))
+    .slice(0, top)
+    .map(({ children, ...dir }) => dir);
+
+  return report;
+}
+
+const percent = (part: number, whole: number) =>
+  `${whole ? ((part / whole) * 100).toFixed(1) : "0.0"}%`;
+
+// Sum of what a folder holds directly, next to its subfolders
+const ownSize = (node: UsageNode) =>
+  node.children.reduce((size, child) => size - child.size, node.size);
+
+function table(rows: string[][]): string[] {
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length))
+  );
+  return rows.map(
+    (row) =>
+      "  " +
+      row
+        .map((cell, i) =>
+          // Numbers line up on the right, names on the left
+          i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])
+        )
+        .join("  ")
+        .trimEnd()
+  );
+}
+
+function textTree(
+  node: UsageNode,
+  total: number,
+  { depth, limit }: Required<UsageFormatOptions>,
+  level: number,
+  indent: string
+): string[] {
+  const lines: string[] = [];
+  const shown = level < depth ? node.children.slice(0, limit) : [];
+  const hidden = node.children.slice(shown.length);
+
+  const rows: [string, UsageNode | undefined, string][] = shown.map((c) => [
+    `${c.name}/`,
+    c,
+    c.children.length && level + 1 >= depth
+      ? ` (+${plural(c.children.length, "folder")})`
+      : "",
+  ]);
+  if (node.ownFiles && shown.length) {
+    rows.push([
+      `${plural(node.ownFiles, "file")} here`,
+      undefined,
+      ` ${formatSize(ownSize(node))}`,
+    ]);
+  }
+  if (hidden.length && shown.length) {
+    const size = hidden.reduce((sum, c) => sum + c.size, 0);
+    rows.push([
+      `… ${plural(hidden.length, "more folder")}`,
+      undefined,
+      ` ${formatSize(size)}`,
+    ]);
+  }
+
+  rows.forEach(([label, child, note], i) => {
+    const last = i === rows.length - 1;
+    const branch = indent + (last ? "└── " : "├── ");
+    if (!child) {
+      lines.push(branch + label + note);
+      return;
+    }
+    lines.push(
+      `${branch}${label}  ${formatSize(child.size)}  ${percent(
+        child.size,
+        total
+      )}  ${plural(child.files, "file")}${note}`
+    );
+    lines.push(
+      ...textTree(
+        child,
+        total,
+        { depth, limit },
+        level + 1,
+        indent + (last ? "    " : "│   ")
+      )
+    );
+  });
+  return lines;
+}
+
+function shareRows(shares: UsageShare[], total: number, limit: number) {
+  return shares
+    .slice(0, limit)
+    .map((s) => [
+      s.name || "(none)",
+      formatSize(s.size),
+      percent(s.size, total),
+      plural(s.files, "file"),
+    ]);
+}
+
+function formatText(
+  report: UsageReport,
+  options: Required<UsageFormatOptions>
+): string {
+  const { limit } = options;
+  const lines = [
+    `${report.root}  ${formatSize(report.size)} in ${plural(
+      report.files,
+      "file"
+    )}, ${plural(report.dirs, "folder")}`,
+    ...textTree(report.tree, report.size, options, 0, ""),
+  ];
+
+  if (report.byCategory.length) {
+    lines.push("", "By category:");
+    lines.push(...table(shareRows(report.byCategory, report.size, limit)));
+  }
+  if (report.byExtension.length) {
+    lines.push("", "By extension:");
+    lines.push(...table(shareRows(report.byExtension, report.size, limit)));
+  }
+  if (report.largestDirs.length) {
+    lines.push("", "Largest folders:");
+    lines.push(
+      ...table(
+        report.largestDirs.map((d) => [
+          d.path,
+          formatSize(d.size),
+          percent(d.size, report.size),
+          plural(d.files, "file"),
+        ])
+      )
+    );
+  }
+  return lines.join("\n");
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    (c) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[
+        c
+      ]!)
+  );
+
+function htmlBar(part: number, whole: number) {
+  return `<span class="bar"><span style="width:${percent(
+    part,
+    whole
+  )}"></span></span>`;
+}
+
+function htmlTree(
+  node: UsageNode,
+  total: number,
+  options: Required<UsageFormatOptions>,
+  level: number
+): string {
+  const shown = node.children.slice(0, options.limit);
+  const hidden = node.children.slice(shown.length);
+  const summary =
+    `${htmlBar(node.size, total)}<b>${escapeHtml(node.name)}/</b> ` +
+    `${formatSize(node.size)} · ${percent(node.size, total)} · ` +
+    plural(node.files, "file");
+
+  if (!shown.length) return `<div class="leaf">${summary}</div>`;
+
+  const items = shown.map((c) => htmlTree(c, total, options, level + 1));
+  if (node.ownFiles) {
+    items.push(
+      `<div class="note">${plural(node.ownFiles, "file")} here · ${formatSize(
+        ownSize(node)
+      )}</div>`
+    );
+  }
+  if (hidden.length) {
+    const size = hidden.reduce((sum, c) => sum + c.size, 0);
+    items.push(
+      `<div class="note">… ${plural(
+        hidden.length,
+        "more folder"
+      )} · ${formatSize(size)}</div>`
+    );
+  }
+  return (
+    `<details${level < options.depth ? " open" : ""}>` +
+    `<summary>${summary}</summary>${items.join("")}</details>`
+  );
+}
+
+function htmlTable(
+  heads: string[],
+  rows: string[][],
+  sizes: number[],
+  total: number
+) {
+  const body = rows
+    .map(
+      (row, i) =>
+        `<tr>${row
+          .map((cell, j) =>
+            j === 0
+              ? `<td>${escapeHtml(cell)}</td>`
+              : `<td class="num">${escapeHtml(cell)}</td>`
+          )
+          .join("")}<td>${htmlBar(sizes[i], total)}</td></tr>`
+    )
+    .join("");
+  return `<table><tr>${heads
+    .map((h) => `<th>${h}</th>`)
+    .join("")}<th></th></tr>${body}</table>`;
+}
+
+function formatHtml(
+  report: UsageReport,
+  options: Required<UsageFormatOptions>
+): string {
+  const { limit } = options;
+  const shares = (title: string, list: UsageShare[]) =>
+    list.length
+      ? `<h2>${title}</h2>` +
+        htmlTable(
+          ["Name", "Size", "Share", "Files"],
+          shareRows(list, report.size, limit),
+          list.slice(0, limit).map((s) => s.size),
+          report.size
+        )
+      : "";
+  const largest = report.largestDirs.length
+    ? "<h2>Largest folders</h2>" +
+      htmlTable(
+        ["Folder", "Size", "Share", "Files"],
+        report.largestDirs.map((d) => [
+          d.path,
+          formatSize(d.size),
+          percent(d.size, report.size),
+          plural(d.files, "file"),
+        ]),
+        report.largestDirs.map((d) => d.size),
+        report.size
+      )
+    : "";
+  const title = `Disk usage of ${escapeHtml(report.root)}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; margin: 2em; color: #222; }
+h2 { margin-top: 1.5em; }
+details { margin-left: 1.2em; }
+body > details { margin-left: 0; }
+summary { cursor: pointer; }
+.leaf, .note { margin-left: 2.4em; }
+.note { color: #777; }
+.bar { display: inline-block; width: 8em; height: 0.7em; margin-right: 0.5em; background: #eee; }
+.bar > span { display: block; height: 100%; background: #4a90d9; }
+table { border-collapse: collapse; }
+th, td { padding: 0.2em 0.8em; text-align: left; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+tr:nth-child(even) { background: #f6f6f6; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p>${formatSize(report.size)} in ${plural(report.files, "file")}, ${plural(
+    report.dirs,
+    "folder"
+  )}${
+    report.errors.length
+      ? ` · ${plural(
+          report.errors.length,
+          "entry",
+          "entries"
+        )} could not be read`
+      : ""
+  }</p>
+<h2>Folders</h2>
+${htmlTree(report.tree, report.size, options, 0)}
+${shares("By category", report.byCategory)}
+${shares("By extension", report.byExtension)}
+${largest}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render an `analyzeUsage()` report.
+ *
+ * - "text": a tree of folders down to `depth` levels, each with its size,
+ *   share of the total and file count, then the category, extension and
+ *   largest-folder tables
+ * - "json": the report as is
+ * - "html": a single page with no external assets; folders below `depth`
+ *   start collapsed and expand on click
+ *
+ * @throws Error if the format is unknown or depth / limit are out of range
+ */
+export function formatUsage(
+  report: UsageReport,
+  format: UsageFormat = "text",
+  options: UsageFormatOptions = {}
+): string {
+  const { depth = 3, limit = 10 } = options;
+  if (!Number.isInteger(depth) || depth < 0) {
+    throw new Error("depth must be a whole number of 0 or more");
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("limit must be a whole number of 1 or more");
+  }
+
+  switch (format) {
+    case "text":
+      return formatText(report, { depth, limit });
+    case "json":
+      return JSON.stringify(report, null, 2);
+    case "html":
+      return formatHtml(report, { depth, limit });
+    default:
+      throw new Error(`Unknown format "${format}" (use text, json or html)`);
+  }
+}
@@ -0,0 +1,253 @@
+import { EventEmitter } from "node:events";
+import { watch as fsWatch, FSWatcher } from "node:fs";
+import fs from "fs/promises";
+import * as sp from "node:path";
+import { isDirectory, normalizePath } from "../../utils/helper";
+import { resolveLogger } from "../../utils/logger";
+import { createJournal, FM_DIR } from "../../utils/journal";
+import { isConfigFile } from "../../utils/config";
+import { createPathFilter } from "../../utils/glob";
+import { applyDecision, createConflictResolver } from "../../utils/conflict";
+import {
+  OperationStats,
+  WatchArrangeOptions,
+  WatchEvent,
+} from "../../utils/types";
+import { captureDate, createRouter, detectNode } from "./router";
+import { toFileNode } from "./handlers";
+
+export interface ArrangeWatcher extends EventEmitter {
+  /** Running totals since the watcher started. */
+  readonly stats: OperationStats;
+  /** Stop watching; resolves once in-flight moves have finished. */
+  close(): Promise<void>;
+}
+
+interface Pending {
+  timer: NodeJS.Timeout;
+  size?: number;
+  mtimeMs?: number;
+}
+
+/**
+ * Keep a drop folder arranged: every file created or renamed into `path` is
+ * moved into its category folder once writes to it have settled.
+ *
+ * Files are routed with the same rules as `arrange()`. A file counts as
+ * settled when two stats `settleMs` apart report the same size and mtime.
+ *
+ * Events:
+ * - `move`  `{ file, dest }` after a file was moved (or would be, in dry-run)
+ * - `skip`  `{ file, reason }` for files that stay where they are ("in place" or "conflict")
+ * - `error` `{ file, error }` when a move fails (logged if nobody listens)
+ * - `close` after `close()` finished
+ *
+ * @param path - Folder to watch (top level only)
+ * @param options - ArrangeOptions (minus `recursive`/`depth`) plus `settleMs` and `initial`
+ * @returns The watcher handle
+ *
+ * @example
+ * ```typescript
+ * const watcher = await watchArrange("/home/me/Downloads", { log: true });
+ * watcher.on("move", ({ file, dest }) => console.log(file, "->", dest));
+ * // later
+ * await watcher.close();
+ * ```
+ */
+export async function watchArrange(
+  path: string,
+  options: WatchArrangeOptions = {}
+): Promise<ArrangeWatcher> {
+  const {
+    rules,
+    dryRun = false,
+    onMove,
+    log: enabled = false,
+    journal: journaled = true,
+    settleMs = 1000,
+    initial = false,
+    detectType = false,
+    groupBy,
+    dateFolder,
+  } = options;
+
+  path = normalizePath(path);
+  const isDir = await isDirectory(path);
+  if (!isDir) throw new Error(`Path '${path}' is not a directory`);
+
+  if (settleMs < 0) {
+    throw new Error("settleMs must not be negative");
+  }
+
+  const logger = resolveLogger(enabled);
+  const route = createRouter(rules, { groupBy, dateFolder });
+  const journal = createJournal("arrange", path, journaled);
+  const resolveConflict = createConflictResolver(options);
+  const excluded = await createPathFilter(path, options);
+  const stats: OperationStats = {
+    scanned: 0,
+    moved: 0,
+    skipped: 0,
+    errors: [],
+  };
+
+  const emitter = new EventEmitter();
+  const pending = new Map<string, Pending>();
+  let queue = Promise.resolve();
+  let closed = false;
+
+  const fail = (file: string, dest: string | undefined, err: unknown) => {
+    const error = (err as Error)?.message ?? String(err);
+    stats.errors.push({ file, error });
+    logger?.error(file, dest ?? file, err);
+    // An unhandled "error" event would crash the process
+    if (emitter.listenerCount("error") > 0) {
+      emitter.emit("error", { file, dest, error } as WatchEvent);
+    }
+  };
+
+  const arrangeFile = async (name: string) => {
+    const full = normalizePath(sp.join(path, name));
+
+    let stat;
+    try {
+      stat = await fs.stat(full);
+    } catch {
+      return; // moved away or deleted before it settled
+    }
+    if (!stat.isFile()) return;
+
+    stats.scanned++;
+    let node = toFileNode(path, full, stat);
+    if (detectType) {
+      try {
+        const { file, mismatch } = await detectNode(node);
+        node = file;
+        if (mismatch) {
+          (stats.mismatches ??= []).push(mismatch);
+          logger?.mismatch(full, mismatch.ext, mismatch.detected);
+        }
+      } catch {
+        // unreadable header: fall back to the extension
+      }
+    }
+    const date = groupBy === "date" ? await captureDate(node) : undefined;
+    let { destPath: dest } = route(node, path, date);
+
+    if (full === dest) {
+      stats.skipped++;
+      logger?.skipped(full);
+      onMove?.({ file: full, dest }, stats);
+      emitter.emit("skip", { file: full, reason: "in place" } as WatchEvent);
+      return;
+    }
+
+    try {
+      const decision = await resolveConflict(full, dest);
+      dest = decision.dest;
+      if (decision.resolution) {
+        (stats.conflicts ??= []).push({
+          file: full,
+          dest,
+          resolution: decision.resolution,
+        });
+        logger?.conflict(full, dest, decision.resolution);
+      }
+
+      if (decision.action === "skip") {
+        stats.skipped++;
+        onMove?.({ file: full, dest }, stats);
+        emitter.emit("skip", { file: full, reason: "conflict" } as WatchEvent);
+        return;
+      }
+
+      if (dryRun) {
+        stats.moved++;
+        logger?.dryRun(full, dest);
+      } else {
+        try {
+          await applyDecision(journal, full, decision);
+        } finally {
+          // The file is on disk now, where the resolver finds it anyway
+          resolveConflict.release(dest);
+        }
+        stats.moved++;
+        stats.journalId = journal.id;
+        logger?.success(full, dest);
+      }
+    } catch (err) {
+      fail(full, dest, err);
+      onMove?.({ file: full, dest }, stats);
+      return;
+    }
+    onMove?.({ file: full, dest }, stats);
+    emitter.emit("move", { file: full, dest } as WatchEvent);
+  };
+
+  // Re-stat until size and mtime stop changing, then queue the move
+  const settle = (name: string) => {
+    const entry = pending.get(name);
+    if (!entry || closed) return;
+
+    fs.stat(sp.join(path, name)).then(
+      (stat) => {
+        if (closed) return;
+        if (entry.size === stat.size && entry.mtimeMs === stat.mtimeMs) {
+          pending.delete(name);
+          queue = queue
+            .then(() => arrangeFile(name))
+            .catch((err) => fail(sp.join(path, name), undefined, err));
+          return;
+        }
+        entry.size = stat.size;
+        entry.mtimeMs = stat.mtimeMs;
+        entry.timer = setTimeout(() => settle(name), settleMs);
+      },
+      () => pending.delete(name) // gone again
+    );
+  };
+
+  const track = (name: string) => {
+    if (closed || name === FM_DIR || isConfigFile(name)) return;
+    if (excluded(normalizePath(sp.join(path, name)))) return;
+
+    const entry = pending.get(name);
+    if (entry) {
+      // Still being written: restart the wait
+      clearTimeout(entry.timer);
+      entry.timer = setTimeout(() => settle(name), settleMs);
+      return;
+    }
+    pending.set(name, { timer: setTimeout(() => settle(name), settleMs) });
+  };
+
+  let watcher: FSWatcher;
+  try {
+    watcher = fsWatch(path, { persistent: true }, (_event, name) => {
+      if (name) track(name.toString());
+    });
+  } catch (e) {
+    throw new Error(`Cannot watch '${path}': ${(e as Error).message}`);
+  }
+  watcher.on("error", (err) => fail(path, undefined, err));
+  logger?.info(`Watching ${path}`);
+
+  if (initial) {
+    const entries = await fs.readdir(path, { withFileTypes: true });
+    entries.filter((e) => e.isFile()).forEach((e) => track(e.name));
+  }
+
+  return Object.assign(emitter, {
+    stats,
+    async close() {
+      if (closed) return;
+      closed = true;
+      watcher.close();
+      for (const entry of pending.values()) clearTimeout(entry.timer);
+      pending.clear();
+      await queue;
+      logger?.info(`Stopped watching ${path}`);
+      emitter.emit("close");
+    },
+  });
+}
@@ -4,3 +4,21 @@ export * from "./core/dedupe";
 export * from "./core/findEmptyFiles";
 export * from "./core/findLargeFiles";
 export * from "./core/archive";
+export * from "./core/restore";
+export { retention } from "./core/retention";
+export { findSimilarImages } from "./core/similar";
+export { listArchive, extractArchive } from "./core/extract";
+export { readManifest } from "../utils/manifest";
+export * from "./core/revert";
+export { loadConfig, resolveOptions } from "../utils/config";
+export * from "./core/watch";
+export { walkStream } from "./core/handlers";
+export { analyzeUsage, formatUsage } from "./core/usage";
+export {
+  snapshot,
+  diffSnapshots,
+  loadSnapshot,
+  listSnapshots,
+  changedPaths,
+} from "./core/snapshot";
+export { sync } from "./core/sync";
@@ -0,0 +1,426 @@
+import * as sp from "node:path";
+import fs from "fs/promises";
+import { normalizePath, parseSize } from "./helper";
+import { CONFLICT_STRATEGIES } from "./conflict";
+import { FmConfig } from "./types";
+
+/** Config file names, in the order they are looked up in each directory. */
+export const CONFIG_FILES = [".fmrc", "fm.config.json"] as const;
+
+/** Config files describe their folder, so operations never move them. */
+export const isConfigFile = (name: string) =>
+  (CONFIG_FILES as readonly string[]).includes(name);
+
+type Kind =
+  | "boolean"
+  | "number"
+  | "string"
+  | "path"
+  | "string[]"
+  | "size"
+  | "rules"
+  | readonly string[];
+
+type Section = Exclude<keyof FmConfig, "root">;
+
+const conflictOptions: Record<string, Kind> = {
+  conflict: CONFLICT_STRATEGIES,
+  renamePattern: "string",
+  checkIdentical: "boolean",
+};
+
+const filterOptions: Record<string, Kind> = {
+  exclude: "string[]",
+  ignoreFile: "path",
+};
+
+// What each config section accepts. Callbacks can't be expressed in JSON, so
+// only plain data options are listed here.
+const schema: Record<Section, Record<string, Kind>> = {
+  arrange: {
+    rules: "rules",
+    detectType: "boolean",
+    groupBy: ["type", "date"],
+    dateFolder: "string",
+    recursive: "boolean",
+    depth: "number",
+    output: "path",
+    mode: ["move", "copy", "hardlink"],
+    ...filterOptions,
+    ...conflictOptions,
+    dryRun: "boolean",
+    log: "boolean",
+    journal: "boolean",
+  },
+  flatten: {
+    depth: "number",
+    level: "number",
+    output: "path",
+    mode: ["move", "copy", "hardlink"],
+    ...filterOptions,
+    ...conflictOptions,
+    dryRun: "boolean",
+    deleteEmpty: "boolean",
+    log: "boolean",
+    journal: "boolean",
+  },
+  dedupe: {
+    strategy: [
+      "canonical",
+      "oldest",
+      "newest",
+      "shortest-path",
+      "longest-path",
+      "first",
+    ],
+    canonicalPath: "path",
+    ignorePatterns: "string[]",
+    ...filterOptions,
+    algorithm: "string",
+    concurrency: "number",
+    cacheFile: "path",
+    action: ["delete", "hardlink", "symlink", "reflink", "quarantine"],
+    quarantinePath: "path",
+    dryRun: "boolean",
+    deleteEmpty: "boolean",
+    log: "boolean",
+    journal: "boolean",
+  },
+  empty: {
+    deleteEmpty: "boolean",
+    ...filterOptions,
+    dryRun: "boolean",
+    getFiles: "boolean",
+    log: "boolean",
+    journal: "boolean",
+  },
+  large: {
+    minSize: "size",
+    maxSize: "size",
+    minSizeMB: "number",
+    limit: "number",
+    ext: "string[]",
+    categories: "string[]",
+    rules: "rules",
+    olderThanDays: "number",
+    newerThanDays: "number",
+    criterion: ["mtime", "atime", "birthtime"],
+    groupBy: ["dir"],
+    action: ["archive", "move", "delete"],
+    dest: "path",
+    ...filterOptions,
+    ...conflictOptions,
+    dryRun: "boolean",
+    log: "boolean",
+    journal: "boolean",
+  },
+  archive: {
+    durationDays: "number",
+    archivePath: "path",
+    preserveStructure: "boolean",
+    format: ["directory", "zip", "tar", "tar.gz"],
+    criterion: ["mtime", "atime", "birthtime"],
+    minSize: "size",
+    maxSize: "size",
+    include: "string[]",
+    ...filterOptions,
+    keepNewest: "number",
+    ...conflictOptions,
+    dryRun: "boolean",
+    log: "boolean",
+    journal: "boolean",
+  },
+  retention: {
+    daily: "number",
+    weekly: "number",
+    monthly: "number",
+    yearly: "number",
+    keepLast: "number",
+    dateFrom: ["mtime", "name"],
+    include: "string[]",
+    ...filterOptions,
+    dryRun: "boolean",
+    log: "boolean",
+    journal: "boolean",
+  },
+  similar: {
+    threshold: "number",
+    strategy: [
+      "canonical",
+      "oldest",
+      "newest",
+      "shortest-path",
+      "longest-path",
+      "first",
+      "highest-resolution",
+    ],
+    canonicalPath: "path",
+    ...filterOptions,
+    concurrency: "number",
+    log: "boolean",
+  },
+  usage: {
+    rules: "rules",
+    top: "number",
+    ...filterOptions,
+  },
+  sync: {
+    delete: "boolean",
+    checksum: "boolean",
+    algorithm: "string",
+    ...filterOptions,
+    ...conflictOptions,
+    dryRun: "boolean",
+    log: "boolean",
+    journal: "boolean",
+  },
+};
+
+const isStringArray = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every((x) => typeof x === "string");
+
+const ruleFields: Record<string, Kind[]> = {
+  name: ["string"],
+  dest: ["string"],
+  ext: ["string", "string[]"],
+  pattern: ["string", "string[]"],
+  regex: ["string"],
+  minSize: ["number", "string"],
+  maxSize: ["number", "string"],
+  olderThanDays: ["number"],
+  newerThanDays: ["number"],
+  dir: ["string", "string[]"],
+  priority: ["number"],
+};
+
+function checkRule(file: string, key: string, rule: unknown) {
+  if (typeof rule !== "object" || rule === null || Array.isArray(rule)) {
+    throw new Error(`${file}: '${key}' must be a rule object`);
+  }
+  if (typeof (rule as { dest?: unknown }).dest !== "string") {
+    throw new Error(`${file}: '${key}.dest' is required`);
+  }
+  for (const [field, value] of Object.entries(rule)) {
+    const kinds = ruleFields[field];
+    if (!kinds)
+      throw new Error(`${file}: unknown rule field '${key}.${field}'`);
+    const ok = kinds.some((kind) => {
+      try {
+        checkValue(file, `${key}.${field}`, kind, value);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+    if (!ok) {
+      throw new Error(
+        `${file}: '${key}.${field}' must be ${kinds.join(
+          " or "
+        )}, got ${JSON.stringify(value)}`
+      );
+    }
+  }
+}
+
+function checkValue(file: string, key: string, kind: Kind, value: unknown) {
+  const fail = (expected: string) => {
+    throw new Error(
+      `${file}: '${key}' must be ${expected}, got ${JSON.stringify(value)}`
+    );
+  };
+
+  if (Array.isArray(kind)) {
+    if (!kind.includes(value as string)) fail(`one of ${kind.join(", ")}`);
+    return;
+  }
+
+  switch (kind) {
+    case "boolean":
+    case "number":
+    case "string":
+      if (typeof value !== kind) fail(`a ${kind}`);
+      if (kind === "number" && !Number.isFinite(value)) fail("a finite number");
+      break;
+    case "path":
+      if (typeof value !== "string" || value.trim() === "") fail("a path");
+      break;
+    case "string[]":
+      if (!isStringArray(value)) fail("an array of strings");
+      break;
+    case "size":
+      try {
+        parseSize(value as number | string);
+      } catch {
+        fail('a size in bytes or a string such as "10MB"');
+      }
+      break;
+    case "rules":
+      if (Array.isArray(value)) {
+        value.forEach((rule, i) => checkRule(file, `${key}[${i}]`, rule));
+      } else if (
+        typeof value !== "object" ||
+        value === null ||
+        !Object.values(value).every(isStringArray)
+      ) {
+        fail(
+          "an object mapping folder names to extension arrays, or an array of rules"
+        );
+      }
+      break;
+  }
+}
+
+/**
+ * Validate raw JSON against the option types, resolving relative paths
+ * against the directory of the config file.
+ */
+function validate(file: string, raw: unknown): FmConfig {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${file}: config must be a JSON object`);
+  }
+
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === "root") {
+      checkValue(file, key, "boolean", value);
+      config.root = value;
+      continue;
+    }
+
+    const fields = schema[key as Section];
+    if (!fields) throw new Error(`${file}: unknown section '${key}'`);
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`${file}: '${key}' must be an object`);
+    }
+
+    const section: Record<string, unknown> = {};
+    for (const [opt, optValue] of Object.entries(value)) {
+      const kind = fields[opt];
+      if (!kind) throw new Error(`${file}: unknown option '${key}.${opt}'`);
+      checkValue(file, `${key}.${opt}`, kind, optValue);
+
+      section[opt] =
+        kind === "path"
+          ? normalizePath(sp.resolve(sp.dirname(file), optValue as string))
+          : optValue;
+    }
+    config[key] = section;
+  }
+
+  return config as FmConfig;
+}
+
+async function readConfigFile(
+  dir: string
+): Promise<{ file: string; config: FmConfig } | undefined> {
+  for (const name of CONFIG_FILES) {
+    const file = normalizePath(sp.join(dir, name));
+    let text: string;
+    try {
+      text = await fs.readFile(file, "utf8");
+    } catch {
+      continue;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (e) {
+      throw new Error(`${file}: invalid JSON (${(e as Error).message})`);
+    }
+    return { file, config: validate(file, raw) };
+  }
+  return undefined;
+}
+
+/**
+ * Merge option objects left to right. `undefined` never overrides a value and
+ * `rules` maps are merged folder by folder; everything else (including rule
+ * lists) is replaced.
+ */
+export function mergeOptions<T extends object>(
+  ...layers: Array<T | undefined>
+): T {
+  const out: Record<string, unknown> = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) continue;
+      const mergeable = (v: unknown) =>
+        typeof v === "object" && v !== null && !Array.isArray(v);
+      if (key === "rules" && mergeable(out.rules) && mergeable(value)) {
+        out.rules = { ...(out.rules as object), ...value };
+      } else {
+        out[key] = value;
+      }
+    }
+  }
+  return out as T;
+}
+
+/**
+ * Load the effective config for a directory.
+ *
+ * Looks for `.fmrc` or `fm.config.json` in `dir` and every parent directory,
+ * stopping at the filesystem root or at a config that sets `"root": true`.
+ * Configs closer to `dir` override the ones above them.
+ *
+ * @param dir - Directory the operation will run on
+ * @returns The merged config and the config files it was built from
+ */
+export async function loadConfig(
+  dir: string
+): Promise<{ config: FmConfig; files: string[] }> {
+  const found: Array<{ file: string; config: FmConfig }> = [];
+  let current = sp.resolve(dir);
+
+  while (true) {
+    const layer = await readConfigFile(current);
+    if (layer) {
+      found.push(layer);
+      if (layer.config.root) break;
+    }
+
+    const parent = sp.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+
+  // Parents first so nested folders win
+  found.reverse();
+
+  const config: FmConfig = {};
+  for (const layer of found) {
+    for (const key of Object.keys(schema) as Section[]) {
+      if (!layer.config[key]) continue;
+      (config as Record<string, unknown>)[key] = mergeOptions(
+        config[key] as object | undefined,
+        layer.config[key] as object
+      );
+    }
+  }
+
+  return { config, files: found.map((f) => f.file) };
+}
+
+/**
+ * Resolve the options for one operation: config files discovered from `dir`
+ * upward, overridden by any explicit options.
+ *
+ * @example
+ * ```typescript
+ * const opts = await resolveOptions("archive", "/shared/projects", { dryRun: true });
+ * await archive("/shared/projects", opts as ArchiveOptions);
+ * ```
+ */
+export async function resolveOptions<K extends Section>(
+  section: K,
+  dir: string,
+  explicit?: FmConfig[K]
+): Promise<NonNullable<FmConfig[K]>> {
+  const { config } = await loadConfig(dir);
+  return mergeOptions<NonNullable<FmConfig[K]>>(
+    config[section] as NonNullable<FmConfig[K]>,
+    explicit as NonNullable<FmConfig[K]>
+  );
+}
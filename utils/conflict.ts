@@ -0,0 +1,216 @@
+import * as sp from "node:path";
+import fs from "fs/promises";
+import { Stats } from "node:fs";
+import { normalizePath } from "./helper";
+import { sameContent } from "./hash";
+import { Journal } from "./journal";
+import {
+  ConflictOptions,
+  ConflictResolution,
+  ConflictStrategy,
+  TransferMode,
+} from "./types";
+
+export const CONFLICT_STRATEGIES: readonly ConflictStrategy[] = [
+  "rename",
+  "overwrite",
+  "skip",
+  "keep-newer",
+  "keep-larger",
+];
+
+export const DEFAULT_RENAME_PATTERN = "-({n})";
+
+export const TRANSFER_MODES: readonly TransferMode[] = [
+  "move",
+  "copy",
+  "hardlink",
+];
+
+export interface ConflictDecision {
+  /** Final destination (differs from the planned one when renamed). */
+  dest: string;
+  /**
+   * - `move`    move to `dest`
+   * - `replace` move to `dest`, replacing the file there
+   * - `skip`    leave the source where it is
+   * - `drop`    `dest` already holds the same content: remove the source
+   */
+  action: "move" | "replace" | "skip" | "drop";
+  /** Set when the planned destination was taken. */
+  resolution?: ConflictResolution;
+}
+
+const exists = (path: string) =>
+  fs.access(path).then(
+    () => true,
+    () => false
+  );
+
+/** `dest` with the rename suffix for attempt `n` inserted before the extension. */
+export function renamed(dest: string, pattern: string, n: number): string {
+  const ext = sp.extname(dest);
+  const base = sp.basename(dest, ext);
+  const today = new Date().toISOString().slice(0, 10);
+  const suffix = pattern
+    .replace(/\{n\}/g, String(n))
+    .replace(/\{date\}/g, today);
+  return normalizePath(sp.join(sp.dirname(dest), `${base}${suffix}${ext}`));
+}
+
+/**
+ * Create the conflict resolver an operation runs every planned move through.
+ *
+ * A destination counts as taken when a file exists there or an earlier move
+ * of the same run claimed it, so dry runs report the same outcome as real
+ * ones. Options are validated up front.
+ */
+export function createConflictResolver(options: ConflictOptions = {}) {
+  const {
+    conflict = "rename",
+    renamePattern = DEFAULT_RENAME_PATTERN,
+    checkIdentical = false,
+  } = options;
+
+  if (!CONFLICT_STRATEGIES.includes(conflict)) {
+    throw new Error(
+      `Unknown conflict strategy "${conflict}" (use ${CONFLICT_STRATEGIES.join(
+        ", "
+      )})`
+    );
+  }
+  if (!renamePattern.includes("{n}") || /[\\/]/.test(renamePattern)) {
+    throw new Error(
+      `renamePattern "${renamePattern}" must contain {n} and no path separators`
+    );
+  }
+
+  // dest -> source planned to land there in this run
+  const claimed = new Map<string, string>();
+
+  const occupant = async (dest: string) =>
+    (await exists(dest)) ? dest : claimed.get(dest);
+
+  const take = (src: string, decision: ConflictDecision) => {
+    if (decision.action === "move" || decision.action === "replace") {
+      claimed.set(decision.dest, src);
+    }
+    return decision;
+  };
+
+  // Replace when `wins` says the incoming file should win, else skip
+  const keepBetter = async (
+    src: string,
+    dest: string,
+    current: string,
+    wins: (a: Stats, b: Stats) => boolean
+  ): Promise<ConflictDecision> => {
+    const [incoming, existing] = await Promise.all([
+      fs.stat(src),
+      fs.stat(current),
+    ]);
+    return wins(incoming, existing)
+      ? { dest, action: "replace", resolution: "overwritten" }
+      : { dest, action: "skip", resolution: "skipped" };
+  };
+
+  const resolve = async (
+    src: string,
+    dest: string
+  ): Promise<ConflictDecision> => {
+    src = normalizePath(src);
+    dest = normalizePath(dest);
+
+    const current = await occupant(dest);
+    if (!current || current === src) {
+      return take(src, { dest, action: "move" });
+    }
+
+    if (checkIdentical && (await sameContent(src, current))) {
+      return { dest, action: "drop", resolution: "identical" };
+    }
+
+    switch (conflict) {
+      case "skip":
+        return { dest, action: "skip", resolution: "skipped" };
+
+      case "overwrite":
+        return take(src, {
+          dest,
+          action: "replace",
+          resolution: "overwritten",
+        });
+
+      case "keep-newer":
+        return take(
+          src,
+          await keepBetter(src, dest, current, (a, b) => a.mtimeMs > b.mtimeMs)
+        );
+
+      case "keep-larger":
+        return take(
+          src,
+          await keepBetter(src, dest, current, (a, b) => a.size > b.size)
+        );
+
+      case "rename":
+      default: {
+        let n = 2;
+        let next = renamed(dest, renamePattern, n);
+        while (await occupant(next)) next = renamed(dest, renamePattern, ++n);
+        return take(src, { dest: next, action: "move", resolution: "renamed" });
+      }
+    }
+  };
+
+  return Object.assign(resolve, {
+    /**
+     * Forget the claim on `dest` once the file is there (or its move failed),
+     * so long-running callers don't hold one per file ever placed.
+     */
+    release(dest: string) {
+      claimed.delete(normalizePath(dest));
+    },
+  });
+}
+
+// Put `src` at `dest` the way `mode` says; the journal checks copies itself
+function transfer(
+  journal: Journal,
+  src: string,
+  dest: string,
+  mode: TransferMode
+) {
+  if (mode === "move") return journal.move(src, dest);
+  return journal.copy(src, dest, mode === "hardlink" ? "hardlink" : undefined);
+}
+
+/**
+ * Carry out a decision through the journal, so replaced files and dropped
+ * sources are staged (and restored by `revert`) rather than lost. With a
+ * `mode` other than "move" the source is never touched.
+ */
+export async function applyDecision(
+  journal: Journal,
+  src: string,
+  decision: ConflictDecision,
+  mode: TransferMode = "move"
+): Promise<void> {
+  switch (decision.action) {
+    case "move":
+      await transfer(journal, src, decision.dest, mode);
+      break;
+    case "replace":
+      // Copies stage the file they replace only once they are in place
+      if (mode === "move" && (await exists(decision.dest))) {
+        await journal.remove(decision.dest);
+      }
+      await transfer(journal, src, decision.dest, mode);
+      break;
+    case "drop":
+      if (mode === "move") await journal.remove(src);
+      break;
+    case "skip":
+      break;
+  }
+}
@@ -0,0 +1,625 @@
+import fs from "fs/promises";
+import { createReadStream, createWriteStream } from "node:fs";
+import { once } from "node:events";
+import { Writable } from "node:stream";
+import crypto from "crypto";
+import zlib from "node:zlib";
+import { ArchiveEntry, ContainerFormat } from "./types";
+import { detectFileType } from "./filetype";
+
+/*
+ * Minimal zip / tar / tar.gz support on top of Node's zlib: enough to write
+ * archive() containers and read them back. Zip entries are deflated and use
+ * data descriptors so files can be streamed; zip64 is not supported.
+ */
+
+const ZIP_LIMIT = 0xffffffff;
+const ZIP_MAX_ENTRIES = 0xffff;
+const TAR_BLOCK = 512;
+const TAR_OCTAL_MAX = 0o77777777777; // 11 octal digits
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(chunk: Buffer, crc = 0): number {
+  crc = ~crc >>> 0;
+  for (let i = 0; i < chunk.length; i++) {
+    crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/** Container format from the file name, falling back to its magic bytes. */
+export async function containerFormat(file: string): Promise<ContainerFormat> {
+  const lower = file.toLowerCase();
+  if (lower.endsWith(".zip")) return "zip";
+  if (lower.endsWith(".tar.gz") || lower.endsWith(".tgz")) return "tar.gz";
+  if (lower.endsWith(".tar")) return "tar";
+
+  const type = await detectFileType(file);
+  if (type?.ext === "zip") return "zip";
+  if (type?.ext === "gz") return "tar.gz";
+  if (type?.ext === "tar") return "tar";
+  throw new Error(`'${file}' is not a zip, tar or tar.gz archive`);
+}
+
+export const containerExt = (format: ContainerFormat) => `.${format}`;
+
+/** Reject entry names that would escape the extraction folder. */
+export function safeEntryPath(path: string): string {
+  const clean = path.replace(/\\/g, "/");
+  if (
+    clean.startsWith("/") ||
+    /^[a-zA-Z]:/.test(clean) ||
+    clean.split("/").includes("..")
+  ) {
+    throw new Error(`Unsafe path in archive: ${path}`);
+  }
+  return clean;
+}
+
+// Write with backpressure
+function sink(stream: Writable) {
+  let offset = 0;
+  return {
+    get offset() {
+      return offset;
+    },
+    async write(chunk: Buffer) {
+      offset += chunk.length;
+      if (!stream.write(chunk)) await once(stream, "drain");
+    },
+  };
+}
+
+type Sink = ReturnType<typeof sink>;
+
+export interface ContainerInput {
+  /** File on disk. */
+  source: string;
+  /** Path inside the container, using `/`. */
+  path: string;
+  size: number;
+  mtime: Date;
+}
+
+/** Stream exactly `size` bytes of a file; fail if it changed meanwhile. */
+async function* readExactly(path: string, size: number) {
+  if (size === 0) return;
+  let read = 0;
+  for await (const chunk of createReadStream(path, {
+    start: 0,
+    end: size - 1,
+  })) {
+    read += (chunk as Buffer).length;
+    yield chunk as Buffer;
+  }
+  if (read !== size) throw new Error(`File changed while archiving: ${path}`);
+}
+
+// ---------------------------------------------------------------- tar
+
+function octal(value: number, width: number): string {
+  return value.toString(8).padStart(width - 1, "0") + "\0";
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body) + 1;
+  while (String(length).length + Buffer.byteLength(body) !== length) length++;
+  return `${length}${body}`;
+}
+
+function tarHeader(
+  name: string,
+  size: number,
+  mtime: Date,
+  type = "0",
+  prefix = ""
+): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK);
+  header.write(name, 0, 100, "utf8");
+  header.write(octal(0o644, 8), 100, "latin1");
+  header.write(octal(0, 8), 108, "latin1");
+  header.write(octal(0, 8), 116, "latin1");
+  if (size > TAR_OCTAL_MAX) {
+    // GNU base-256 encoding for files over 8 GB
+    header[124] = 0x80;
+    let rest = BigInt(size);
+    for (let i = 135; i > 124; i--) {
+      header[i] = Number(rest & BigInt(0xff));
+      rest >>= BigInt(8);
+    }
+  } else {
+    header.write(octal(size, 12), 124, "latin1");
+  }
+  header.write(octal(Math.floor(mtime.getTime() / 1000), 12), 136, "latin1");
+  header.write(type, 156, "latin1");
+  header.write("ustar\0", 257, "latin1");
+  header.write("00", 263, "latin1");
+  header.write(prefix, 345, 155, "utf8");
+
+  header.fill(" ", 148, 156);
+  let sum = 0;
+  for (const byte of header) sum += byte;
+  header.write(octal(sum, 7) + " ", 148, "latin1");
+  return header;
+}
+
+const padding = (size: number) =>
+  Buffer.alloc((TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK);
+
+async function writeTarEntry(
+  out: Sink,
+  entry: ContainerInput,
+  hash: crypto.Hash
+) {
+  let name = entry.path;
+  let prefix = "";
+  if (Buffer.byteLength(name) > 100) {
+    const cut = name.lastIndexOf("/", 155);
+    const [head, tail] = [name.slice(0, cut), name.slice(cut + 1)];
+    if (
+      cut > 0 &&
+      Buffer.byteLength(head) <= 155 &&
+      Buffer.byteLength(tail) <= 100
+    ) {
+      [prefix, name] = [head, tail];
+    } else {
+      // PAX extended header carries the full path
+      const pax = Buffer.from(paxRecord("path", entry.path), "utf8");
+      await out.write(tarHeader("PaxHeader", pax.length, entry.mtime, "x"));
+      await out.write(pax);
+      await out.write(padding(pax.length));
+      name = entry.path.slice(-100);
+    }
+  }
+
+  await out.write(tarHeader(name, entry.size, entry.mtime, "0", prefix));
+  for await (const chunk of readExactly(entry.source, entry.size)) {
+    hash.update(chunk);
+    await out.write(chunk);
+  }
+  await out.write(padding(entry.size));
+}
+
+// ---------------------------------------------------------------- zip
+
+function dosDateTime(date: Date) {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// "UT" extra field: exact mtime in UTC seconds
+function timestampExtra(mtime: Date): Buffer {
+  const extra = Buffer.alloc(9);
+  extra.writeUInt16LE(0x5455, 0);
+  extra.writeUInt16LE(5, 2);
+  extra[4] = 1;
+  extra.writeUInt32LE(Math.floor(mtime.getTime() / 1000) >>> 0, 5);
+  return extra;
+}
+
+interface ZipRecord {
+  name: Buffer;
+  extra: Buffer;
+  crc: number;
+  compressed: number;
+  size: number;
+  offset: number;
+  mtime: Date;
+}
+
+async function writeZipEntry(
+  out: Sink,
+  entry: ContainerInput,
+  hash: crypto.Hash
+): Promise<ZipRecord> {
+  const name = Buffer.from(entry.path, "utf8");
+  const extra = timestampExtra(entry.mtime);
+  const { time, date } = dosDateTime(entry.mtime);
+  const offset = out.offset;
+  if (offset > ZIP_LIMIT || entry.size > ZIP_LIMIT) {
+    throw new Error("zip archives are limited to 4 GB; use tar or tar.gz");
+  }
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(0x0808, 6); // data descriptor + UTF-8 names
+  local.writeUInt16LE(8, 8); // deflate
+  local.writeUInt16LE(time, 10);
+  local.writeUInt16LE(date, 12);
+  local.writeUInt16LE(name.length, 26);
+  local.writeUInt16LE(extra.length, 28);
+  await out.write(Buffer.concat([local, name, extra]));
+
+  let crc = 0;
+  const deflate = zlib.createDeflateRaw();
+  const start = out.offset;
+  const written = (async () => {
+    for await (const chunk of deflate) await out.write(chunk as Buffer);
+  })();
+  try {
+    for await (const chunk of readExactly(entry.source, entry.size)) {
+      crc = crc32(chunk, crc);
+      hash.update(chunk);
+      if (!deflate.write(chunk)) await once(deflate, "drain");
+    }
+  } catch (err) {
+    written.catch(() => undefined);
+    deflate.destroy();
+    throw err;
+  }
+  deflate.end();
+  await written;
+  const compressed = out.offset - start;
+
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(crc, 4);
+  descriptor.writeUInt32LE(compressed, 8);
+  descriptor.writeUInt32LE(entry.size, 12);
+  await out.write(descriptor);
+
+  return {
+    name,
+    extra,
+    crc,
+    compressed,
+    size: entry.size,
+    offset,
+    mtime: entry.mtime,
+  };
+}
+
+async function writeZipDirectory(out: Sink, records: ZipRecord[]) {
+  if (records.length > ZIP_MAX_ENTRIES) {
+    throw new Error(
+      "zip archives are limited to 65535 files; use tar or tar.gz"
+    );
+  }
+  const start = out.offset;
+  for (const r of records) {
+    const { time, date } = dosDateTime(r.mtime);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4); // made by unix
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0808, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(r.crc, 16);
+    central.writeUInt32LE(r.compressed, 20);
+    central.writeUInt32LE(r.size, 24);
+    central.writeUInt16LE(r.name.length, 28);
+    central.writeUInt16LE(r.extra.length, 30);
+    central.writeUInt32LE((0o100644 << 16) >>> 0, 38);
+    central.writeUInt32LE(r.offset, 42);
+    await out.write(Buffer.concat([central, r.name, r.extra]));
+  }
+  const size = out.offset - start;
+  if (start > ZIP_LIMIT) {
+    throw new Error("zip archives are limited to 4 GB; use tar or tar.gz");
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(records.length, 8);
+  end.writeUInt16LE(records.length, 10);
+  end.writeUInt32LE(size, 12);
+  end.writeUInt32LE(start, 16);
+  await out.write(end);
+}
+
+/**
+ * Stream files into a new container. Fails if `file` already exists.
+ *
+ * @returns SHA-256 of every entry's content, keyed by path inside the container
+ */
+export async function writeContainer(
+  file: string,
+  format: ContainerFormat,
+  entries: ContainerInput[]
+): Promise<Map<string, string>> {
+  const target = createWriteStream(file, { flags: "wx" });
+  const gzip = format === "tar.gz" ? zlib.createGzip() : undefined;
+  if (gzip) gzip.pipe(target);
+  const stream = gzip ?? target;
+  const out = sink(stream);
+  const hashes = new Map<string, string>();
+  const failed = new Promise<never>((_, reject) => {
+    target.once("error", reject);
+    gzip?.once("error", reject);
+  });
+
+  const work = (async () => {
+    await once(target, "open");
+    const records: ZipRecord[] = [];
+    for (const entry of entries) {
+      const hash = crypto.createHash("sha256");
+      if (format === "zip") records.push(await writeZipEntry(out, entry, hash));
+      else await writeTarEntry(out, entry, hash);
+      hashes.set(entry.path, hash.digest("hex"));
+    }
+    if (format === "zip") await writeZipDirectory(out, records);
+    else await out.write(Buffer.alloc(TAR_BLOCK * 2));
+
+    stream.end();
+    await once(target, "close");
+  })();
+
+  // Whichever loses the race must not surface as an unhandled rejection
+  work.catch(() => undefined);
+  failed.catch(() => undefined);
+  try {
+    await Promise.race([work, failed]);
+  } catch (err) {
+    target.destroy();
+    await fs.rm(file, { force: true });
+    throw err;
+  }
+  return hashes;
+}
+
+// ---------------------------------------------------------------- reading
+
+/** Visitor for `readContainer`; `data` streams (and checks) the entry's content. */
+export type EntryVisitor = (
+  entry: ArchiveEntry,
+  data: () => AsyncIterable<Buffer>
+) => Promise<void> | void;
+
+// Sequential reader over a stream of chunks
+function byteReader(source: AsyncIterable<Buffer>) {
+  const it = source[Symbol.asyncIterator]();
+  let buf = Buffer.alloc(0);
+
+  const fill = async () => {
+    const { value, done } = await it.next();
+    if (done) return false;
+    buf = buf.length ? Buffer.concat([buf, value]) : value;
+    return true;
+  };
+
+  return {
+    async read(n: number): Promise<Buffer | undefined> {
+      while (buf.length < n) {
+        if (!(await fill())) {
+          if (buf.length === 0) return undefined;
+          throw new Error("Unexpected end of archive");
+        }
+      }
+      const out = buf.subarray(0, n);
+      buf = buf.subarray(n);
+      return out;
+    },
+    async *take(n: number): AsyncGenerator<Buffer> {
+      while (n > 0) {
+        if (buf.length === 0 && !(await fill())) {
+          throw new Error("Unexpected end of archive");
+        }
+        const part = buf.subarray(0, Math.min(n, buf.length));
+        buf = buf.subarray(part.length);
+        n -= part.length;
+        yield part;
+      }
+    },
+  };
+}
+
+function parseOctal(field: Buffer): number {
+  if (field[0] & 0x80) {
+    let value = BigInt(field[0] & 0x7f);
+    for (let i = 1; i < field.length; i++) {
+      value = (value << BigInt(8)) | BigInt(field[i]);
+    }
+    return Number(value);
+  }
+  const text = field
+    .toString("latin1")
+    .replace(/\0[\s\S]*$/, "")
+    .trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let pos = 0;
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    if (space === -1) break;
+    const length = parseInt(data.toString("latin1", pos, space), 10);
+    if (!length) break;
+    const record = data.toString("utf8", space + 1, pos + length - 1);
+    const eq = record.indexOf("=");
+    records[record.slice(0, eq)] = record.slice(eq + 1);
+    pos += length;
+  }
+  return records;
+}
+
+async function readTar(file: string, gzipped: boolean, visit: EntryVisitor) {
+  const raw = createReadStream(file);
+  const source = gzipped ? raw.pipe(zlib.createGunzip()) : raw;
+  raw.on("error", (err) => source.destroy(err));
+  const reader = byteReader(source as AsyncIterable<Buffer>);
+
+  let pax: Record<string, string> = {};
+  let longName: string | undefined;
+  try {
+    for (;;) {
+      const header = await reader.read(TAR_BLOCK);
+      if (!header || header.every((b) => b === 0)) break;
+
+      const size = parseOctal(header.subarray(124, 136));
+      const type = String.fromCharCode(header[156] || 0x30);
+
+      if (type === "x" || type === "L") {
+        const chunks: Buffer[] = [];
+        for await (const c of reader.take(size)) chunks.push(Buffer.from(c));
+        const data = Buffer.concat(chunks);
+        if (type === "x") pax = parsePax(data);
+        else longName = data.toString("utf8").replace(/\0+$/, "");
+        await reader.read((TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK);
+        continue;
+      }
+
+      const name = header.toString("utf8", 0, 100).replace(/\0[\s\S]*$/, "");
+      const prefix = header
+        .toString("utf8", 345, 500)
+        .replace(/\0[\s\S]*$/, "");
+      const path =
+        pax.path ?? longName ?? (prefix ? `${prefix}/${name}` : name);
+      const entrySize = pax.size ? Number(pax.size) : size;
+      const mtime = new Date(
+        (pax.mtime
+          ? Number(pax.mtime)
+          : parseOctal(header.subarray(136, 148))) * 1000
+      );
+      pax = {};
+      longName = undefined;
+
+      // Whatever the visitor leaves unread is skipped afterwards
+      let remaining = entrySize;
+      let consumed = false;
+      const data = async function* () {
+        if (consumed) throw new Error("Entry data can only be read once");
+        consumed = true;
+        for await (const chunk of reader.take(entrySize)) {
+          remaining -= chunk.length;
+          yield chunk;
+        }
+      };
+
+      if (type === "0" || type === "\0" || type === "7") {
+        await visit({ path, size: entrySize, mtime }, data);
+      }
+      for await (const _ of reader.take(remaining));
+      await reader.read((TAR_BLOCK - (entrySize % TAR_BLOCK)) % TAR_BLOCK);
+    }
+  } finally {
+    raw.destroy();
+  }
+}
+
+async function readZip(file: string, visit: EntryVisitor) {
+  const handle = await fs.open(file, "r");
+  const records: (ArchiveEntry & {
+    crc: number;
+    offset: number;
+    method: number;
+  })[] = [];
+  try {
+    const { size } = await handle.stat();
+    const tailSize = Math.min(size, 0xffff + 22);
+    const tail = Buffer.alloc(tailSize);
+    await handle.read(tail, 0, tailSize, size - tailSize);
+    const eocd = tail.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    if (eocd === -1) throw new Error(`'${file}' is not a valid zip archive`);
+
+    const count = tail.readUInt16LE(eocd + 10);
+    const cdSize = tail.readUInt32LE(eocd + 12);
+    const cdOffset = tail.readUInt32LE(eocd + 16);
+    const cd = Buffer.alloc(cdSize);
+    await handle.read(cd, 0, cdSize, cdOffset);
+
+    let p = 0;
+    for (let i = 0; i < count; i++) {
+      if (cd.readUInt32LE(p) !== 0x02014b50) {
+        throw new Error(`'${file}' has a corrupted central directory`);
+      }
+      const method = cd.readUInt16LE(p + 10);
+      const time = cd.readUInt16LE(p + 12);
+      const date = cd.readUInt16LE(p + 14);
+      const nameLength = cd.readUInt16LE(p + 28);
+      const extraLength = cd.readUInt16LE(p + 30);
+      const commentLength = cd.readUInt16LE(p + 32);
+      const path = cd.toString("utf8", p + 46, p + 46 + nameLength);
+      const extra = cd.subarray(
+        p + 46 + nameLength,
+        p + 46 + nameLength + extraLength
+      );
+
+      let mtime = new Date(
+        (date >> 9) + 1980,
+        ((date >> 5) & 0xf) - 1,
+        date & 0x1f,
+        time >> 11,
+        (time >> 5) & 0x3f,
+        (time & 0x1f) * 2
+      );
+      for (let e = 0; e + 4 <= extra.length; ) {
+        const id = extra.readUInt16LE(e);
+        const len = extra.readUInt16LE(e + 2);
+        if (id === 0x5455 && len >= 5 && extra[e + 4] & 1) {
+          mtime = new Date(extra.readUInt32LE(e + 5) * 1000);
+        }
+        e += 4 + len;
+      }
+
+      records.push({
+        path,
+        size: cd.readUInt32LE(p + 24),
+        compressedSize: cd.readUInt32LE(p + 20),
+        mtime,
+        crc: cd.readUInt32LE(p + 16),
+        offset: cd.readUInt32LE(p + 42),
+        method,
+      });
+      p += 46 + nameLength + extraLength + commentLength;
+    }
+
+    for (const r of records) {
+      if (r.path.endsWith("/")) continue; // directory entry
+      if (r.method !== 0 && r.method !== 8) {
+        throw new Error(`Unsupported zip compression for ${r.path}`);
+      }
+      const local = Buffer.alloc(30);
+      await handle.read(local, 0, 30, r.offset);
+      const start =
+        r.offset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+      const { crc, method, compressedSize = 0, ...entry } = r;
+
+      const data = async function* () {
+        if (compressedSize === 0) return;
+        const raw = createReadStream(file, {
+          start,
+          end: start + compressedSize - 1,
+        });
+        const stream = method === 8 ? raw.pipe(zlib.createInflateRaw()) : raw;
+        raw.on("error", (err) => stream.destroy(err));
+        let check = 0;
+        for await (const chunk of stream) {
+          check = crc32(chunk as Buffer, check);
+          yield chunk as Buffer;
+        }
+        if (check !== crc) throw new Error(`CRC mismatch for ${r.path}`);
+      };
+      await visit({ ...entry, compressedSize }, data);
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Visit every file entry of a container in order. */
+export async function readContainer(file: string, visit: EntryVisitor) {
+  const format = await containerFormat(file);
+  if (format === "zip") await readZip(file, visit);
+  else await readTar(file, format === "tar.gz", visit);
+}
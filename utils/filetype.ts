@@ -0,0 +1,345 @@
+import fs from "fs/promises";
+import { FileType } from "./types";
+
+// Bytes read from the start of a file. Covers every signature below except
+// ISO 9660, whose volume descriptor lives at 0x8001.
+const HEADER_SIZE = 512;
+const ISO_OFFSETS = [0x8001, 0x8801, 0x9001];
+
+// Container formats that other extensions legitimately use
+const ZIP_FAMILY = [
+  "zip",
+  "docx",
+  "xlsx",
+  "pptx",
+  "odt",
+  "ods",
+  "odp",
+  "apk",
+  "jar",
+  "epub",
+];
+const CFB_FAMILY = ["doc", "xls", "ppt", "msi", "msg"];
+
+interface Signature {
+  ext: string;
+  /** Other extensions that are fine for this content. */
+  also?: readonly string[];
+  test(buf: Buffer): boolean;
+}
+
+const bytes = (buf: Buffer, offset: number, ...expected: number[]) =>
+  buf.length >= offset + expected.length &&
+  expected.every((b, i) => buf[offset + i] === b);
+
+const ascii = (buf: Buffer, offset: number, text: string) =>
+  buf.length >= offset + text.length &&
+  buf.toString("latin1", offset, offset + text.length) === text;
+
+const riff = (buf: Buffer, kind: string) =>
+  ascii(buf, 0, "RIFF") && ascii(buf, 8, kind);
+
+// ISO base media (mp4, mov, heic...) is identified by the ftyp major brand
+const ftyp = (buf: Buffer, ...brands: string[]) =>
+  ascii(buf, 4, "ftyp") &&
+  brands.includes(buf.toString("latin1", 8, 12).trim());
+
+// Windows executables: the DOS stub's e_lfanew (at 0x3C) points at "PE\0\0".
+// "MZ" alone starts plenty of text files.
+const pe = (buf: Buffer) => {
+  if (!ascii(buf, 0, "MZ") || buf.length < 0x40) return false;
+  const offset = buf.readUInt32LE(0x3c);
+  return bytes(buf, offset, 0x50, 0x45, 0x00, 0x00);
+};
+
+// First entry of a zip archive, used to tell zip-based formats apart
+const zipEntry = (buf: Buffer) => {
+  if (!bytes(buf, 0, 0x50, 0x4b, 0x03, 0x04) || buf.length < 30) return "";
+  const nameLength = buf.readUInt16LE(26);
+  const extraLength = buf.readUInt16LE(28);
+  const name = buf.toString("latin1", 30, 30 + nameLength);
+  // ODF and EPUB store their mimetype uncompressed as the first entry
+  if (name === "mimetype") {
+    const start = 30 + nameLength + extraLength;
+    return `mimetype:${buf.toString("latin1", start, start + 64)}`;
+  }
+  return name;
+};
+
+const signatures: Signature[] = [
+  // images
+  {
+    ext: "jpg",
+    also: ["jpeg", "jpe"],
+    test: (b) => bytes(b, 0, 0xff, 0xd8, 0xff),
+  },
+  {
+    ext: "png",
+    test: (b) => bytes(b, 0, 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+  },
+  { ext: "gif", test: (b) => ascii(b, 0, "GIF87a") || ascii(b, 0, "GIF89a") },
+  { ext: "webp", test: (b) => riff(b, "WEBP") },
+  {
+    ext: "tiff",
+    also: ["tif", "dng", "nef", "cr2", "arw"],
+    test: (b) =>
+      bytes(b, 0, 0x49, 0x49, 0x2a, 0x00) ||
+      bytes(b, 0, 0x4d, 0x4d, 0x00, 0x2a),
+  },
+  {
+    ext: "heic",
+    also: ["heif"],
+    test: (b) => ftyp(b, "heic", "heix", "hevc", "hevx", "mif1", "msf1"),
+  },
+  { ext: "avif", test: (b) => ftyp(b, "avif", "avis") },
+  {
+    ext: "bmp",
+    test: (b) =>
+      ascii(b, 0, "BM") &&
+      b.length >= 18 &&
+      [12, 40, 52, 56, 108, 124].includes(b.readUInt32LE(14)),
+  },
+  {
+    ext: "ico",
+    also: ["cur"],
+    test: (b) =>
+      bytes(b, 0, 0x00, 0x00, 0x01, 0x00) && b.length > 6 && b[4] > 0,
+  },
+  {
+    ext: "svg",
+    test: (b) => {
+      const head = b.toString("utf8").trimStart();
+      return (
+        (head.startsWith("<svg") || head.startsWith("<?xml")) &&
+        head.includes("<svg")
+      );
+    },
+  },
+
+  // video
+  { ext: "mov", also: ["qt"], test: (b) => ftyp(b, "qt") },
+  { ext: "m4v", also: ["mp4"], test: (b) => ftyp(b, "M4V", "M4VH", "M4VP") },
+  { ext: "m4a", also: ["mp4", "m4b"], test: (b) => ftyp(b, "M4A", "M4B") },
+  {
+    ext: "3gp",
+    also: ["3g2", "mp4"],
+    test: (b) => ftyp(b, "3gp4", "3gp5", "3gp6", "3g2a", "3ge6", "3gg6"),
+  },
+  {
+    ext: "mp4",
+    also: ["m4v", "m4a", "mov", "3gp"],
+    test: (b) => ascii(b, 4, "ftyp"),
+  },
+  {
+    ext: "webm",
+    test: (b) =>
+      bytes(b, 0, 0x1a, 0x45, 0xdf, 0xa3) &&
+      b.subarray(0, 64).includes("webm", 0, "latin1"),
+  },
+  {
+    ext: "mkv",
+    also: ["mka", "mks", "webm"],
+    test: (b) => bytes(b, 0, 0x1a, 0x45, 0xdf, 0xa3),
+  },
+  { ext: "avi", test: (b) => riff(b, "AVI ") },
+  { ext: "flv", test: (b) => ascii(b, 0, "FLV") && b[3] === 0x01 },
+  {
+    ext: "wmv",
+    also: ["wma", "asf"],
+    test: (b) => bytes(b, 0, 0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11),
+  },
+  {
+    ext: "mpeg",
+    also: ["mpg", "m2v", "vob"],
+    test: (b) =>
+      bytes(b, 0, 0x00, 0x00, 0x01, 0xba) ||
+      bytes(b, 0, 0x00, 0x00, 0x01, 0xb3),
+  },
+
+  // audio
+  { ext: "wav", also: ["wave"], test: (b) => riff(b, "WAVE") },
+  { ext: "flac", test: (b) => ascii(b, 0, "fLaC") },
+  {
+    ext: "ogg",
+    also: ["oga", "ogv", "opus"],
+    test: (b) => ascii(b, 0, "OggS"),
+  },
+  { ext: "amr", test: (b) => ascii(b, 0, "#!AMR") },
+  {
+    ext: "aiff",
+    also: ["aif", "aifc"],
+    test: (b) =>
+      ascii(b, 0, "FORM") && (ascii(b, 8, "AIFF") || ascii(b, 8, "AIFC")),
+  },
+  {
+    ext: "mp3",
+    test: (b) =>
+      ascii(b, 0, "ID3") ||
+      (b.length > 1 && b[0] === 0xff && [0xfb, 0xf3, 0xf2].includes(b[1])),
+  },
+  {
+    ext: "aac",
+    test: (b) =>
+      b.length > 1 && b[0] === 0xff && (b[1] === 0xf1 || b[1] === 0xf9),
+  },
+
+  // documents
+  { ext: "pdf", test: (b) => ascii(b, 0, "%PDF-") },
+  { ext: "rtf", test: (b) => ascii(b, 0, "{\\rtf") },
+  {
+    ext: "odt",
+    also: ZIP_FAMILY,
+    test: (b) =>
+      zipEntry(b).startsWith(
+        "mimetype:application/vnd.oasis.opendocument.text"
+      ),
+  },
+  {
+    ext: "ods",
+    also: ZIP_FAMILY,
+    test: (b) =>
+      zipEntry(b).startsWith(
+        "mimetype:application/vnd.oasis.opendocument.spreadsheet"
+      ),
+  },
+  {
+    ext: "odp",
+    also: ZIP_FAMILY,
+    test: (b) =>
+      zipEntry(b).startsWith(
+        "mimetype:application/vnd.oasis.opendocument.presentation"
+      ),
+  },
+  {
+    ext: "epub",
+    also: ZIP_FAMILY,
+    test: (b) => zipEntry(b).startsWith("mimetype:application/epub+zip"),
+  },
+  {
+    ext: "docx",
+    also: ZIP_FAMILY,
+    test: (b) => zipEntry(b).startsWith("word/"),
+  },
+  { ext: "xlsx", also: ZIP_FAMILY, test: (b) => zipEntry(b).startsWith("xl/") },
+  {
+    ext: "pptx",
+    also: ZIP_FAMILY,
+    test: (b) => zipEntry(b).startsWith("ppt/"),
+  },
+  {
+    ext: "apk",
+    also: ZIP_FAMILY,
+    test: (b) => ["AndroidManifest.xml", "classes.dex"].includes(zipEntry(b)),
+  },
+  {
+    ext: "jar",
+    also: ZIP_FAMILY,
+    test: (b) => zipEntry(b).startsWith("META-INF/"),
+  },
+  {
+    ext: "doc",
+    also: CFB_FAMILY,
+    test: (b) => bytes(b, 0, 0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1),
+  },
+
+  // archives
+  {
+    ext: "zip",
+    also: ZIP_FAMILY,
+    test: (b) =>
+      bytes(b, 0, 0x50, 0x4b, 0x03, 0x04) ||
+      bytes(b, 0, 0x50, 0x4b, 0x05, 0x06) ||
+      bytes(b, 0, 0x50, 0x4b, 0x07, 0x08),
+  },
+  {
+    ext: "rar",
+    test: (b) => bytes(b, 0, 0x52, 0x61, 0x72, 0x21, 0x1a, 0x07),
+  },
+  {
+    ext: "7z",
+    test: (b) => bytes(b, 0, 0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c),
+  },
+  {
+    ext: "gz",
+    also: ["tgz", "gzip"],
+    test: (b) => bytes(b, 0, 0x1f, 0x8b, 0x08),
+  },
+  { ext: "bz2", also: ["tbz2", "tbz"], test: (b) => ascii(b, 0, "BZh") },
+  {
+    ext: "xz",
+    also: ["txz"],
+    test: (b) => bytes(b, 0, 0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00),
+  },
+  { ext: "tar", test: (b) => ascii(b, 257, "ustar") },
+
+  // fonts
+  { ext: "woff", test: (b) => ascii(b, 0, "wOFF") },
+  { ext: "woff2", test: (b) => ascii(b, 0, "wOF2") },
+  { ext: "otf", test: (b) => ascii(b, 0, "OTTO") },
+  {
+    ext: "ttf",
+    also: ["ttc"],
+    test: (b) =>
+      bytes(b, 0, 0x00, 0x01, 0x00, 0x00, 0x00) || ascii(b, 0, "ttcf"),
+  },
+
+  // executables
+  {
+    ext: "exe",
+    also: ["dll", "sys", "scr", "com", "efi"],
+    test: pe,
+  },
+  {
+    ext: "bin",
+    also: ["so", "o", "elf", "out", "run", "appimage"],
+    test: (b) => bytes(b, 0, 0x7f, 0x45, 0x4c, 0x46),
+  },
+];
+
+/**
+ * Identify a file from its leading bytes.
+ *
+ * @param header - Start of the file (at least the first 512 bytes when available)
+ * @returns The detected type, or undefined when no signature matches
+ */
+export function detectFromHeader(header: Buffer): FileType | undefined {
+  const match = signatures.find((s) => s.test(header));
+  if (!match) return undefined;
+  return { ext: match.ext, also: match.also ?? [] };
+}
+
+/**
+ * Identify a file by its magic bytes. Only the header is read (plus the ISO
+ * 9660 volume descriptor for large files), never the whole content.
+ *
+ * @param path - File to inspect
+ * @returns The detected type, or undefined for unknown content
+ */
+export async function detectFileType(
+  path: string
+): Promise<FileType | undefined> {
+  const handle = await fs.open(path, "r");
+  try {
+    const header = Buffer.alloc(HEADER_SIZE);
+    const { bytesRead } = await handle.read(header, 0, HEADER_SIZE, 0);
+    const type = detectFromHeader(header.subarray(0, bytesRead));
+    if (type) return type;
+
+    const probe = Buffer.alloc(5);
+    for (const offset of ISO_OFFSETS) {
+      const { bytesRead: n } = await handle.read(probe, 0, 5, offset);
+      if (n < 5) break;
+      if (probe.toString("latin1") === "CD001") {
+        return { ext: "iso", also: ["img", "udf"] };
+      }
+    }
+    return undefined;
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Whether a file's extension is acceptable for the detected content. */
+export function extensionMatches(ext: string, type: FileType): boolean {
+  return ext === type.ext || type.also.includes(ext);
+}
@@ -0,0 +1,198 @@
+import * as sp from "node:path";
+import fs from "fs/promises";
+import { normalizePath } from "./helper";
+import { FilterOptions } from "./types";
+
+const escape = (ch: string) => ch.replace(/[.+^$()|\\/{}[\]*?]/g, "\\$&");
+
+/**
+ * Translate a glob into an anchored regular expression.
+ *
+ * Supports `*` (anything but `/`), `?`, `**` (any number of path segments),
+ * `[abc]` / `[a-z]` / `[!abc]` classes and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string, flags = ""): RegExp {
+  let re = "";
+  let braces = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+
+    switch (ch) {
+      case "*": {
+        if (glob[i + 1] === "*") {
+          // `**/` matches zero or more directories, a trailing `**` anything
+          const slash = glob[i + 2] === "/";
+          re += slash ? "(?:.*/)?" : ".*";
+          i += slash ? 2 : 1;
+        } else {
+          re += "[^/]*";
+        }
+        break;
+      }
+      case "?":
+        re += "[^/]";
+        break;
+      case "[": {
+        const end = glob.indexOf("]", i + 2);
+        if (end === -1) {
+          re += "\\[";
+          break;
+        }
+        let body = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+        if (body[0] === "!") body = "^" + body.slice(1);
+        re += `[${body}]`;
+        i = end;
+        break;
+      }
+      case "{":
+        braces++;
+        re += "(?:";
+        break;
+      case "}":
+        if (braces > 0) {
+          braces--;
+          re += ")";
+        } else {
+          re += "\\}";
+        }
+        break;
+      case ",":
+        re += braces > 0 ? "|" : ",";
+        break;
+      case "\\":
+        re += escape(glob[++i] ?? "\\");
+        break;
+      default:
+        re += escape(ch);
+    }
+  }
+
+  if (braces > 0) throw new Error(`Unclosed '{' in glob '${glob}'`);
+  return new RegExp(`^${re}$`, flags);
+}
+
+/**
+ * Match a path against a glob. Patterns without a `/` are matched against
+ * the file name only, so `*.tmp` matches at any depth.
+ *
+ * @param path - Path relative to the operation root, using `/`
+ * @param glob - Glob pattern
+ */
+export function matchGlob(path: string, glob: string): boolean {
+  const target = glob.includes("/")
+    ? path
+    : path.slice(path.lastIndexOf("/") + 1);
+  return globToRegExp(glob.replace(/^\//, "")).test(target);
+}
+
+interface IgnoreRule {
+  re: RegExp;
+  /** `!pattern`: re-include what earlier rules excluded. */
+  negate: boolean;
+  /** Trailing `/`: only folders match. */
+  dirOnly: boolean;
+  /** Contains a `/`: matched against the whole relative path. */
+  anchored: boolean;
+}
+
+function toRule(pattern: string): IgnoreRule | undefined {
+  let glob = pattern;
+  const negate = glob.startsWith("!");
+  if (negate) glob = glob.slice(1);
+  const dirOnly = glob.endsWith("/");
+  glob = glob.replace(/\/+$/, "");
+  if (!glob) return undefined;
+
+  const anchored = glob.includes("/");
+  return {
+    re: globToRegExp(glob.replace(/^\//, "")),
+    negate,
+    dirOnly,
+    anchored,
+  };
+}
+
+/**
+ * Compile .gitignore-style patterns into a test for relative paths. Rules
+ * apply in order and the last one that matches wins, so `!keep.log` after
+ * `*.log` re-includes one file. Anything inside an excluded folder stays
+ * excluded, as in git.
+ *
+ * @returns Whether the path (relative to the root, using `/`) is excluded
+ */
+export function compileIgnore(
+  patterns: readonly string[]
+): (path: string, isDir?: boolean) => boolean {
+  const rules = patterns
+    .map(toRule)
+    .filter((rule): rule is IgnoreRule => rule !== undefined);
+  if (rules.length === 0) return () => false;
+
+  const test = (path: string, isDir: boolean) => {
+    const name = path.slice(path.lastIndexOf("/") + 1);
+    let excluded = false;
+    for (const rule of rules) {
+      if (rule.negate !== excluded || (rule.dirOnly && !isDir)) continue;
+      if (rule.re.test(rule.anchored ? path : name)) excluded = !rule.negate;
+    }
+    return excluded;
+  };
+
+  return (path, isDir = false) => {
+    const parts = path.split("/");
+    for (let i = 1; i < parts.length; i++) {
+      if (test(parts.slice(0, i).join("/"), true)) return true;
+    }
+    return test(path, isDir);
+  };
+}
+
+/**
+ * Patterns of a .gitignore-style file: blank lines and `#` comments are
+ * dropped, as are unescaped trailing spaces; `\#` and `\!` start a pattern
+ * with a literal `#` or `!`.
+ */
+export function parseIgnoreFile(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/(?<!\\)\s+$/, ""))
+    .filter((line) => line !== "" && !line.startsWith("#"));
+}
+
+/**
+ * Build the exclusion test an operation hands to `walk()`: `ignoreFile`
+ * patterns first, then `exclude`, matched against paths relative to `root`.
+ *
+ * @throws Error if `ignoreFile` can't be read or a pattern is malformed
+ */
+export async function createPathFilter(
+  root: string,
+  { exclude = [], ignoreFile }: FilterOptions
+): Promise<(fullPath: string, isDir?: boolean) => boolean> {
+  let patterns = exclude;
+  if (ignoreFile) {
+    let text: string;
+    try {
+      text = await fs.readFile(ignoreFile, "utf8");
+    } catch (err) {
+      throw new Error(
+        `Cannot read ignore file '${ignoreFile}': ${(err as Error).message}`
+      );
+    }
+    patterns = [...parseIgnoreFile(text), ...exclude];
+  }
+
+  const excluded = compileIgnore(patterns);
+  // walk() reports real paths, readdir-based scans the path as given
+  const bases = [
+    normalizePath(await fs.realpath(root)),
+    normalizePath(sp.resolve(root)),
+  ];
+  return (fullPath, isDir = false) => {
+    const rel = bases
+      .map((base) => normalizePath(sp.relative(base, fullPath)))
+      .find((r) => r !== ".." && !r.startsWith("../"));
+    return rel !== undefined && rel !== "" && excluded(rel, isDir);
+  };
+}
@@ -0,0 +1,57 @@
+import { createReadStream } from "fs";
+import crypto from "crypto";
+import fs from "fs/promises";
+
+/** Hex digest of a file's content, streamed so large files stay cheap. */
+export const hashFile = (
+  filePath: string,
+  algorithm = "sha256"
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash(algorithm);
+    const stream = createReadStream(filePath);
+
+    stream.on("data", (chunk) => hash.update(chunk));
+    stream.on("end", () => resolve(hash.digest("hex")));
+    stream.on("error", (err) => reject(err));
+  });
+};
+
+/** Bytes read from each end of a file by `hashEnds`. */
+export const PARTIAL_HASH_BYTES = 64 * 1024;
+
+/**
+ * Hex digest of the first and last `bytes` of a file. Cheap to compute on
+ * large files and different whenever their headers or tails differ, so it
+ * rules out most same-size files before a full hash is needed.
+ */
+export async function hashEnds(
+  filePath: string,
+  algorithm = "sha256",
+  bytes = PARTIAL_HASH_BYTES
+): Promise<string> {
+  const hash = crypto.createHash(algorithm);
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    const buf = Buffer.alloc(Math.min(bytes, size));
+    const head = await handle.read(buf, 0, buf.length, 0);
+    hash.update(buf.subarray(0, head.bytesRead));
+    if (size > bytes) {
+      const start = Math.max(bytes, size - bytes);
+      const tail = await handle.read(buf, 0, size - start, start);
+      hash.update(buf.subarray(0, tail.bytesRead));
+    }
+  } finally {
+    await handle.close();
+  }
+  return hash.digest("hex");
+}
+
+/** Whether two files hold the same bytes; sizes are compared before hashing. */
+export async function sameContent(a: string, b: string): Promise<boolean> {
+  const [sa, sb] = await Promise.all([fs.stat(a), fs.stat(b)]);
+  if (sa.size !== sb.size) return false;
+  const [ha, hb] = await Promise.all([hashFile(a), hashFile(b)]);
+  return ha === hb;
+}
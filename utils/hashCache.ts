@@ -0,0 +1,100 @@
+import * as sp from "node:path";
+import fs from "fs/promises";
+import { normalizePath } from "./helper";
+import { FileNode } from "./types";
+
+const VERSION = 1;
+
+interface CacheEntry {
+  size: number;
+  mtimeMs: number;
+  ino?: number;
+  /** Digest per kind, e.g. "sha256" or "sha256:ends". */
+  hashes: Record<string, string>;
+}
+
+export interface HashCache {
+  /** Cached digest of `kind`, if the file hasn't changed since it was stored. */
+  get(file: FileNode, kind: string): string | undefined;
+  set(file: FileNode, kind: string, hash: string): void;
+  /**
+   * Write the cache back. Entries below any of `roots` whose file wasn't in
+   * `seen` are dropped, so deleted files don't pile up.
+   */
+  save(roots: string[], seen: FileNode[]): Promise<void>;
+}
+
+// A file is unchanged while its size, mtime and (where there is one) inode are
+const matches = (entry: CacheEntry, file: FileNode) =>
+  entry.size === file.size &&
+  entry.mtimeMs === file.mtime?.getTime() &&
+  (!entry.ino || !file.ino || entry.ino === file.ino);
+
+const noCache: HashCache = {
+  get: () => undefined,
+  set: () => undefined,
+  save: async () => undefined,
+};
+
+/**
+ * Open the hash cache stored in `cacheFile`. Without a file, a cache that
+ * remembers nothing is returned so callers need no special case. A missing
+ * or unreadable file starts an empty cache.
+ */
+export async function openHashCache(cacheFile?: string): Promise<HashCache> {
+  if (!cacheFile) return noCache;
+
+  let entries: Record<string, CacheEntry> = {};
+  try {
+    const raw = JSON.parse(await fs.readFile(cacheFile, "utf8"));
+    if (raw?.version === VERSION && typeof raw.entries === "object") {
+      entries = raw.entries;
+    }
+  } catch {
+    // Missing or corrupt: rebuilt on this run
+  }
+  let dirty = false;
+
+  return {
+    get(file, kind) {
+      const entry = entries[normalizePath(file.fullPath)];
+      return entry && matches(entry, file) ? entry.hashes[kind] : undefined;
+    },
+
+    set(file, kind, hash) {
+      const key = normalizePath(file.fullPath);
+      let entry = entries[key];
+      if (!entry || !matches(entry, file)) {
+        entry = entries[key] = {
+          size: file.size,
+          mtimeMs: file.mtime?.getTime() ?? 0,
+          ino: file.ino || undefined,
+          hashes: {},
+        };
+      }
+      entry.hashes[kind] = hash;
+      dirty = true;
+    },
+
+    async save(roots, seen) {
+      const prefixes = roots.map((root) =>
+        normalizePath(sp.resolve(root)).replace(/\/?$/, "/")
+      );
+      const present = new Set(seen.map((f) => normalizePath(f.fullPath)));
+      for (const key of Object.keys(entries)) {
+        if (prefixes.some((p) => key.startsWith(p)) && !present.has(key)) {
+          delete entries[key];
+          dirty = true;
+        }
+      }
+      if (!dirty) return;
+
+      // Write then rename, so an interrupted run never leaves half a cache
+      await fs.mkdir(sp.dirname(cacheFile), { recursive: true });
+      const tmp = `${cacheFile}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify({ version: VERSION, entries }));
+      await fs.rename(tmp, cacheFile);
+      dirty = false;
+    },
+  };
+}
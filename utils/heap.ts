@@ -0,0 +1,49 @@
+/**
+ * Keep the `limit` greatest items (by `compare`) of a stream of any length.
+ *
+ * A min-heap whose root is the smallest item kept, so memory never goes past
+ * `limit` items and each push costs O(log limit).
+ */
+export function createTopN<T>(limit: number, compare: (a: T, b: T) => number) {
+  const heap: T[] = [];
+  const less = (i: number, j: number) => compare(heap[i], heap[j]) < 0;
+  const swap = (i: number, j: number) => {
+    [heap[i], heap[j]] = [heap[j], heap[i]];
+  };
+
+  const up = (i: number) => {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!less(i, parent)) return;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const down = (i: number) => {
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let least = i;
+      if (left < heap.length && less(left, least)) least = left;
+      if (right < heap.length && less(right, least)) least = right;
+      if (least === i) return;
+      swap(i, least);
+      i = least;
+    }
+  };
+
+  return {
+    push(item: T) {
+      if (heap.length < limit) {
+        heap.push(item);
+        up(heap.length - 1);
+      } else if (limit > 0 && compare(item, heap[0]) > 0) {
+        heap[0] = item;
+        down(0);
+      }
+    },
+    /** The items kept, greatest first */
+    sorted: () => heap.slice().sort((a, b) => compare(b, a)),
+  };
+}
@@ -1,5 +1,6 @@
 import * as sp from "node:path";
 import fs from "fs/promises";
+import { ArchiveCriterion, FileNode } from "./types";
 
 export function normalizePath(path: string): string {
   if (typeof path !== "string") throw new Error("string expected");
@@ -22,10 +23,11 @@ export async function move(src: string, dest: string) {
 
   await fs.mkdir(sp.dirname(dest), { recursive: true });
 
-  try {
-    await fs.access(dest);
-    throw new Error(`File already exists: ${dest}`);
-  } catch {}
+  const taken = await fs.access(dest).then(
+    () => true,
+    () => false
+  );
+  if (taken) throw new Error(`File already exists: ${dest}`);
 
   try {
     await fs.rename(src, dest);
@@ -33,12 +35,41 @@ export async function move(src: string, dest: string) {
     if (e.code !== "EXDEV") throw e;
 
     const tmp = dest + ".tmp";
-    await fs.copyFile(src, tmp);
+    await fs.copyFile(src, tmp, fs.constants.COPYFILE_EXCL);
     await fs.rename(tmp, dest);
     await fs.unlink(src);
   }
 }
 
+/**
+ * Copy `src` to `dest` through a temporary file renamed into place, so an
+ * interrupted copy never leaves half a file at `dest`. Access and
+ * modification times are carried over.
+ */
+export async function copy(src: string, dest: string) {
+  src = normalizePath(src);
+  dest = normalizePath(dest);
+
+  await fs.mkdir(sp.dirname(dest), { recursive: true });
+
+  const taken = await fs.access(dest).then(
+    () => true,
+    () => false
+  );
+  if (taken) throw new Error(`File already exists: ${dest}`);
+
+  const tmp = dest + ".tmp";
+  try {
+    await fs.copyFile(src, tmp, fs.constants.COPYFILE_EXCL);
+    const { atime, mtime } = await fs.stat(src);
+    await fs.utimes(tmp, atime, mtime);
+    await fs.rename(tmp, dest);
+  } catch (e) {
+    await fs.rm(tmp, { force: true });
+    throw e;
+  }
+}
+
 export const isDirectory = async (path: string): Promise<boolean> => {
   const stat = await fs.stat(path);
   if (stat.isDirectory()) return true;
@@ -51,3 +82,56 @@ export const formatSize = (bytes: number) => {
   if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
   return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
 };
+
+export const plural = (n: number, word: string, many = `${word}s`) =>
+  `${n} ${n === 1 ? word : many}`;
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  kib: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  mib: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+  gib: 1024 ** 3,
+  t: 1024 ** 4,
+  tb: 1024 ** 4,
+  tib: 1024 ** 4,
+};
+
+/**
+ * Parse a size such as `"1.5GB"`, `"200 KB"` or `4096` into bytes.
+ * Units are binary (1 KB = 1024 B), matching `formatSize`.
+ */
+export const parseSize = (size: number | string): number => {
+  if (typeof size === "number") {
+    if (!Number.isFinite(size) || size < 0) {
+      throw new Error(`Invalid size: ${size}`);
+    }
+    return size;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)\s*$/i.exec(size);
+  const unit = SIZE_UNITS[(match?.[2] || "b").toLowerCase()];
+  if (!match || unit === undefined) throw new Error(`Invalid size: '${size}'`);
+  return Math.round(parseFloat(match[1]) * unit);
+};
+
+/** Timestamps a file's age can be measured by */
+export const TIME_CRITERIA: readonly ArchiveCriterion[] = [
+  "mtime",
+  "atime",
+  "birthtime",
+];
+
+// Filesystems without creation times report the epoch; use mtime there
+export function fileTime(file: FileNode, criterion: ArchiveCriterion) {
+  const time = file[criterion];
+  if (criterion === "birthtime" && (!time || time.getTime() <= 0)) {
+    return file.mtime;
+  }
+  return time;
+}
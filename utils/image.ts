@@ -0,0 +1,657 @@
+import zlib from "node:zlib";
+
+/*
+ * Just enough image decoding to compare pictures: PNG (all color types, bit
+ * depths and Adam7) and baseline / extended-sequential JPEG, both decoded to
+ * 8-bit luminance. Progressive and arithmetic-coded JPEGs are not supported.
+ */
+
+/** Grayscale image, one byte per pixel, row by row. */
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/** Message prefix of errors for valid files this decoder doesn't handle. */
+export const UNSUPPORTED_IMAGE = "Unsupported image format";
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+// Adam7 passes: x start, y start, x step, y step
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const luma = (r: number, g: number, b: number) =>
+  0.299 * r + 0.587 * g + 0.114 * b;
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// Undo the per-row filters of one (sub-)image in place
+function unfilter(
+  raw: Buffer,
+  offset: number,
+  rows: number,
+  stride: number,
+  bpp: number
+) {
+  let prev: Buffer | undefined;
+  for (let y = 0; y < rows; y++) {
+    const start = offset + y * (stride + 1);
+    const type = raw[start];
+    const line = raw.subarray(start + 1, start + 1 + stride);
+    for (let i = 0; i < stride; i++) {
+      const a = i >= bpp ? line[i - bpp] : 0;
+      const b = prev ? prev[i] : 0;
+      const c = prev && i >= bpp ? prev[i - bpp] : 0;
+      switch (type) {
+        case 0:
+          break;
+        case 1:
+          line[i] = (line[i] + a) & 0xff;
+          break;
+        case 2:
+          line[i] = (line[i] + b) & 0xff;
+          break;
+        case 3:
+          line[i] = (line[i] + ((a + b) >> 1)) & 0xff;
+          break;
+        case 4:
+          line[i] = (line[i] + paeth(a, b, c)) & 0xff;
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type ${type}`);
+      }
+    }
+    prev = line;
+  }
+}
+
+/** Decode a PNG to luminance. Transparent pixels are composited onto white. */
+export function decodePng(buf: Buffer): GrayImage {
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a PNG file");
+  }
+
+  let width = 0;
+  let height = 0;
+  let depth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | undefined;
+  let alphas: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  for (let pos = 8; pos + 8 <= buf.length; ) {
+    const length = buf.readUInt32BE(pos);
+    const type = buf.toString("latin1", pos + 4, pos + 8);
+    const body = buf.subarray(pos + 8, pos + 8 + length);
+    pos += 12 + length;
+
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      depth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "tRNS") {
+      alphas = body;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels || ![1, 2, 4, 8, 16].includes(depth)) {
+    throw new Error("Unsupported or corrupt PNG header");
+  }
+  if (colorType === 3 && !palette) throw new Error("PNG palette missing");
+
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * depth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const data = new Uint8Array(width * height);
+  const max = (1 << Math.min(depth, 8)) - 1;
+
+  // Raw sample `c` of pixel `x` in an unfiltered row
+  const raw16 = (line: Buffer, x: number, c: number) => {
+    if (depth === 8) return line[x * channels + c];
+    if (depth === 16) return line.readUInt16BE((x * channels + c) * 2);
+    const bit = (x * channels + c) * depth;
+    return (line[bit >> 3] >> (8 - depth - (bit & 7))) & max;
+  };
+  // The same, scaled to 0..255
+  const sample = (line: Buffer, x: number, c: number) => {
+    const v = raw16(line, x, c);
+    if (depth === 8) return v;
+    if (depth === 16) return v >> 8;
+    return Math.round((v * 255) / max);
+  };
+  // tRNS on gray and RGB images names one fully transparent color
+  const key =
+    alphas && (colorType === 0 || colorType === 2)
+      ? Array.from({ length: channels }, (_, c) => alphas!.readUInt16BE(c * 2))
+      : undefined;
+
+  const pixel = (line: Buffer, x: number) => {
+    let gray: number;
+    let alpha = 255;
+    switch (colorType) {
+      case 0:
+        gray = sample(line, x, 0);
+        break;
+      case 2:
+        gray = luma(sample(line, x, 0), sample(line, x, 1), sample(line, x, 2));
+        break;
+      case 3: {
+        const i = raw16(line, x, 0);
+        gray = luma(palette![i * 3], palette![i * 3 + 1], palette![i * 3 + 2]);
+        if (alphas && i < alphas.length) alpha = alphas[i];
+        break;
+      }
+      case 4:
+        gray = sample(line, x, 0);
+        alpha = sample(line, x, 1);
+        break;
+      default:
+        gray = luma(sample(line, x, 0), sample(line, x, 1), sample(line, x, 2));
+        alpha = sample(line, x, 3);
+    }
+    if (key && key.every((v, c) => raw16(line, x, c) === v)) alpha = 0;
+    return Math.round((gray * alpha + 255 * (255 - alpha)) / 255);
+  };
+
+  const passes = interlace ? ADAM7 : [[0, 0, 1, 1]];
+  let offset = 0;
+  for (const [x0, y0, dx, dy] of passes) {
+    const pw = Math.ceil((width - x0) / dx);
+    const ph = Math.ceil((height - y0) / dy);
+    if (pw <= 0 || ph <= 0) continue;
+    const stride = Math.ceil((pw * bitsPerPixel) / 8);
+    if (offset + ph * (stride + 1) > raw.length) {
+      throw new Error("PNG image data is truncated");
+    }
+    unfilter(raw, offset, ph, stride, bpp);
+
+    for (let y = 0; y < ph; y++) {
+      const start = offset + y * (stride + 1) + 1;
+      const line = raw.subarray(start, start + stride);
+      const row = (y0 + y * dy) * width;
+      for (let x = 0; x < pw; x++) data[row + x0 + x * dx] = pixel(line, x);
+    }
+    offset += ph * (stride + 1);
+  }
+
+  return { width, height, data };
+}
+
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+]);
+
+// IDCT basis: COS[x * 8 + u] = C(u) * cos((2x + 1) * u * PI / 16) / 2
+const COS = (() => {
+  const table = new Float32Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      const c = u === 0 ? Math.SQRT1_2 : 1;
+      table[x * 8 + u] = (c * Math.cos(((2 * x + 1) * u * Math.PI) / 16)) / 2;
+    }
+  }
+  return table;
+})();
+
+interface Huffman {
+  maxcode: Int32Array;
+  valptr: Int32Array;
+  mincode: Int32Array;
+  values: Uint8Array;
+}
+
+function buildHuffman(counts: Uint8Array, values: Uint8Array): Huffman {
+  const maxcode = new Int32Array(18).fill(-1);
+  const valptr = new Int32Array(17);
+  const mincode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let l = 1; l <= 16; l++) {
+    valptr[l] = k;
+    mincode[l] = code;
+    code += counts[l - 1];
+    k += counts[l - 1];
+    if (counts[l - 1]) maxcode[l] = code - 1;
+    code <<= 1;
+  }
+  maxcode[17] = 0x7fffffff;
+  return { maxcode, valptr, mincode, values };
+}
+
+interface Component {
+  id: number;
+  h: number;
+  v: number;
+  tq: number;
+  pred: number;
+  dc?: Huffman;
+  ac?: Huffman;
+}
+
+/**
+ * Decode the luminance of a baseline (or extended sequential, Huffman coded)
+ * JPEG. Chroma is entropy-decoded to keep the stream in sync, then dropped.
+ */
+export function decodeJpeg(buf: Buffer): GrayImage {
+  if (buf[0] !== 0xff || buf[1] !== 0xd8) throw new Error("Not a JPEG file");
+
+  const quant: Int32Array[] = [];
+  const dcTables: Huffman[] = [];
+  const acTables: Huffman[] = [];
+  let components: Component[] = [];
+  let width = 0;
+  let height = 0;
+  let hmax = 1;
+  let vmax = 1;
+  let restartInterval = 0;
+  let adobeTransform: number | undefined;
+  let plane: Float32Array | undefined;
+  let planeWidth = 0;
+
+  let pos = 2;
+  while (pos < buf.length) {
+    if (buf[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = buf[pos + 1];
+    pos += 2;
+    if (
+      marker === 0xd8 ||
+      marker === 0xff ||
+      (marker >= 0xd0 && marker <= 0xd7)
+    ) {
+      if (marker === 0xff) pos--;
+      continue;
+    }
+    if (marker === 0xd9) break;
+
+    const length = buf.readUInt16BE(pos);
+    const seg = buf.subarray(pos + 2, pos + length);
+    pos += length;
+
+    switch (marker) {
+      case 0xdb: // DQT
+        for (let i = 0; i < seg.length; ) {
+          const precision = seg[i] >> 4;
+          const id = seg[i] & 15;
+          const table = new Int32Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[k] = precision
+              ? seg.readUInt16BE(i + 1 + k * 2)
+              : seg[i + 1 + k];
+          }
+          quant[id] = table;
+          i += 1 + 64 * (precision ? 2 : 1);
+        }
+        break;
+
+      case 0xc4: // DHT
+        for (let i = 0; i < seg.length; ) {
+          const cls = seg[i] >> 4;
+          const id = seg[i] & 15;
+          const counts = seg.subarray(i + 1, i + 17);
+          const total = counts.reduce((sum, n) => sum + n, 0);
+          const table = buildHuffman(
+            counts,
+            seg.subarray(i + 17, i + 17 + total)
+          );
+          (cls === 0 ? dcTables : acTables)[id] = table;
+          i += 17 + total;
+        }
+        break;
+
+      case 0xee: // APP14: Adobe's transform flag, 0 means RGB / CMYK
+        if (seg.toString("latin1", 0, 5) === "Adobe" && seg.length >= 12) {
+          adobeTransform = seg[11];
+        }
+        break;
+
+      case 0xdd: // DRI
+        restartInterval = seg.readUInt16BE(0);
+        break;
+
+      case 0xc0: // SOF0 baseline
+      case 0xc1: // SOF1 extended sequential
+        if (seg[0] !== 8) throw new Error(`${UNSUPPORTED_IMAGE}: 12-bit JPEG`);
+        height = seg.readUInt16BE(1);
+        width = seg.readUInt16BE(3);
+        if (!width || !height) throw new Error("JPEG has no dimensions");
+        components = [];
+        for (let i = 0; i < seg[5]; i++) {
+          const at = 6 + i * 3;
+          components.push({
+            id: seg[at],
+            h: seg[at + 1] >> 4,
+            v: seg[at + 1] & 15,
+            tq: seg[at + 2],
+            pred: 0,
+          });
+        }
+        // Only YCbCr and grayscale keep luminance in the first component
+        const ids = components.map((c) => String.fromCharCode(c.id)).join("");
+        if (
+          components.length === 4 ||
+          (components.length === 3 && (adobeTransform === 0 || ids === "RGB"))
+        ) {
+          throw new Error(`${UNSUPPORTED_IMAGE}: RGB or CMYK JPEG`);
+        }
+        hmax = Math.max(...components.map((c) => c.h));
+        vmax = Math.max(...components.map((c) => c.v));
+        planeWidth = Math.ceil(width / (8 * hmax)) * components[0].h * 8;
+        plane = new Float32Array(
+          planeWidth * Math.ceil(height / (8 * vmax)) * components[0].v * 8
+        );
+        break;
+
+      case 0xc2:
+      case 0xc3:
+      case 0xc5:
+      case 0xc6:
+      case 0xc7:
+      case 0xc9:
+      case 0xca:
+      case 0xcb:
+      case 0xcd:
+      case 0xce:
+      case 0xcf:
+        throw new Error(`${UNSUPPORTED_IMAGE}: progressive or lossless JPEG`);
+
+      case 0xda: {
+        // SOS
+        if (!plane) throw new Error("JPEG scan before frame header");
+        const scan: Component[] = [];
+        for (let i = 0; i < seg[0]; i++) {
+          const comp = components.find((c) => c.id === seg[1 + i * 2]);
+          if (!comp) throw new Error("JPEG scan references unknown component");
+          comp.dc = dcTables[seg[2 + i * 2] >> 4];
+          comp.ac = acTables[seg[2 + i * 2] & 15];
+          comp.pred = 0;
+          scan.push(comp);
+        }
+        pos = decodeScan(buf, pos, {
+          scan,
+          luma: components[0],
+          quant,
+          plane,
+          planeWidth,
+          width,
+          height,
+          hmax,
+          vmax,
+          restartInterval,
+        });
+        break;
+      }
+    }
+  }
+
+  if (!plane) throw new Error("JPEG has no frame header");
+
+  const lw = Math.ceil((width * components[0].h) / hmax);
+  const lh = Math.ceil((height * components[0].v) / vmax);
+  const data = new Uint8Array(lw * lh);
+  for (let y = 0; y < lh; y++) {
+    for (let x = 0; x < lw; x++) {
+      const v = plane[y * planeWidth + x] + 128;
+      data[y * lw + x] = v < 0 ? 0 : v > 255 ? 255 : Math.round(v);
+    }
+  }
+  return { width: lw, height: lh, data };
+}
+
+interface ScanState {
+  scan: Component[];
+  luma: Component;
+  quant: Int32Array[];
+  plane: Float32Array;
+  planeWidth: number;
+  width: number;
+  height: number;
+  hmax: number;
+  vmax: number;
+  restartInterval: number;
+}
+
+// Entropy-decode one scan starting at `pos`; returns where the next marker is
+function decodeScan(buf: Buffer, pos: number, s: ScanState): number {
+  let bits = 0;
+  let count = 0;
+
+  const readBit = () => {
+    if (count === 0) {
+      let byte = 0;
+      if (pos < buf.length) {
+        byte = buf[pos];
+        if (byte === 0xff) {
+          const next = buf[pos + 1];
+          if (next === 0) pos += 2;
+          else byte = 0; // a marker: feed zeros, don't consume it
+        } else {
+          pos++;
+        }
+      }
+      bits = byte;
+      count = 8;
+    }
+    count--;
+    return (bits >> count) & 1;
+  };
+
+  const receive = (n: number) => {
+    let v = 0;
+    for (let i = 0; i < n; i++) v = (v << 1) | readBit();
+    return v;
+  };
+  const extend = (v: number, n: number) =>
+    v < 1 << (n - 1) ? v - (1 << n) + 1 : v;
+
+  const decode = (table: Huffman | undefined) => {
+    if (!table) throw new Error("JPEG Huffman table missing");
+    let code = readBit();
+    let l = 1;
+    while (code > table.maxcode[l]) {
+      code = (code << 1) | readBit();
+      if (++l > 16) throw new Error("Corrupt JPEG Huffman data");
+    }
+    return table.values[table.valptr[l] + code - table.mincode[l]];
+  };
+
+  const coeffs = new Float32Array(64);
+  const tmp = new Float32Array(64);
+
+  const decodeBlock = (comp: Component, row: number, col: number) => {
+    const t = decode(comp.dc);
+    comp.pred += t === 0 ? 0 : extend(receive(t), t);
+    const store = comp === s.luma;
+    const q = s.quant[comp.tq];
+    if (store) {
+      if (!q) throw new Error("JPEG quantization table missing");
+      coeffs.fill(0);
+      coeffs[0] = comp.pred * q[0];
+    }
+
+    for (let k = 1; k < 64; ) {
+      const rs = decode(comp.ac);
+      const size = rs & 15;
+      const run = rs >> 4;
+      if (size === 0) {
+        if (run !== 15) break;
+        k += 16;
+        continue;
+      }
+      k += run;
+      const v = extend(receive(size), size);
+      if (store && k < 64) coeffs[ZIGZAG[k]] = v * q[k];
+      k++;
+    }
+    if (!store) return;
+
+    // Separable 8x8 inverse DCT straight into the luminance plane
+    for (let v = 0; v < 8; v++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let u = 0; u < 8; u++) sum += COS[x * 8 + u] * coeffs[v * 8 + u];
+        tmp[v * 8 + x] = sum;
+      }
+    }
+    const base = row * 8 * s.planeWidth + col * 8;
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let v = 0; v < 8; v++) sum += COS[y * 8 + v] * tmp[v * 8 + x];
+        s.plane[base + y * s.planeWidth + x] = sum;
+      }
+    }
+  };
+
+  const restart = () => {
+    count = 0;
+    // Skip to and over the RSTn marker
+    while (
+      pos + 1 < buf.length &&
+      !(buf[pos] === 0xff && buf[pos + 1] >= 0xd0 && buf[pos + 1] <= 0xd7)
+    ) {
+      pos++;
+    }
+    pos += 2;
+    s.scan.forEach((c) => (c.pred = 0));
+  };
+
+  let units: { comp: Component; rows: number; cols: number }[];
+  let mcusX: number;
+  let mcusY: number;
+  if (s.scan.length === 1) {
+    // Non-interleaved: one block per MCU, over the component's own size
+    const comp = s.scan[0];
+    mcusX = Math.ceil(Math.ceil((s.width * comp.h) / s.hmax) / 8);
+    mcusY = Math.ceil(Math.ceil((s.height * comp.v) / s.vmax) / 8);
+    units = [{ comp, rows: 1, cols: 1 }];
+  } else {
+    mcusX = Math.ceil(s.width / (8 * s.hmax));
+    mcusY = Math.ceil(s.height / (8 * s.vmax));
+    units = s.scan.map((comp) => ({ comp, rows: comp.v, cols: comp.h }));
+  }
+
+  let done = 0;
+  for (let my = 0; my < mcusY; my++) {
+    for (let mx = 0; mx < mcusX; mx++) {
+      if (s.restartInterval && done > 0 && done % s.restartInterval === 0) {
+        restart();
+      }
+      for (const { comp, rows, cols } of units) {
+        for (let v = 0; v < rows; v++) {
+          for (let h = 0; h < cols; h++) {
+            decodeBlock(comp, my * rows + v, mx * cols + h);
+          }
+        }
+      }
+      done++;
+    }
+  }
+
+  // Find the marker that ends the scan
+  while (pos + 1 < buf.length) {
+    if (
+      buf[pos] === 0xff &&
+      buf[pos + 1] !== 0 &&
+      !(buf[pos + 1] >= 0xd0 && buf[pos + 1] <= 0xd7)
+    ) {
+      break;
+    }
+    pos++;
+  }
+  return pos;
+}
+
+/** Decode a PNG or JPEG by its magic bytes. */
+export function decodeImage(buf: Buffer): GrayImage {
+  if (buf.subarray(0, 8).equals(PNG_SIGNATURE)) return decodePng(buf);
+  if (buf[0] === 0xff && buf[1] === 0xd8) return decodeJpeg(buf);
+  throw new Error(`${UNSUPPORTED_IMAGE}: not a PNG or JPEG`);
+}
+
+/**
+ * 64-bit difference hash: shrink to 9x8 by averaging, then record for each
+ * pixel whether it is brighter than its right neighbour. Survives
+ * re-encoding, resizing and small brightness changes.
+ *
+ * @returns 16 hex digits
+ */
+export function dHash(image: GrayImage): string {
+  const { width, height, data } = image;
+  const cols = 9;
+  const rows = 8;
+  const small = new Float64Array(cols * rows);
+
+  for (let ty = 0; ty < rows; ty++) {
+    const y0 = Math.floor((ty * height) / rows);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / rows));
+    for (let tx = 0; tx < cols; tx++) {
+      const x0 = Math.floor((tx * width) / cols);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / cols));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) sum += data[y * width + x];
+      }
+      small[ty * cols + tx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  let hex = "";
+  for (let ty = 0; ty < rows; ty++) {
+    let byte = 0;
+    for (let tx = 0; tx < 8; tx++) {
+      const brighter = small[ty * cols + tx] > small[ty * cols + tx + 1];
+      byte = (byte << 1) | (brighter ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+const popcount = (n: number) => {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+/** Number of differing bits between two `dHash` values (0..64). */
+export function hammingDistance(a: string, b: string): number {
+  return (
+    popcount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+    popcount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16))
+  );
+}
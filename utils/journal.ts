@@ -0,0 +1,264 @@
+import * as sp from "node:path";
+import os from "node:os";
+import fs from "fs/promises";
+import { constants } from "node:fs";
+import { copy, move, normalizePath } from "./helper";
+import { sameContent } from "./hash";
+import {
+  JournalEntry,
+  JournalHeader,
+  JournalOperation,
+  LinkKind,
+} from "./types";
+
+/** Folder (inside an operation root) holding files staged for deletion. */
+export const FM_DIR = ".fm";
+
+export function journalDir(): string {
+  const home = process.env.FM_HOME ?? sp.join(os.homedir(), FM_DIR);
+  return normalizePath(sp.join(home, "journal"));
+}
+
+export function journalFile(id: string): string {
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid journal id '${id}'`);
+  return normalizePath(sp.join(journalDir(), `${id}.jsonl`));
+}
+
+export function trashDir(root: string, id: string): string {
+  return normalizePath(sp.join(root, FM_DIR, "trash", id));
+}
+
+export interface Journal {
+  /** Id of the journal, set once the first entry has been written. */
+  readonly id: string | undefined;
+  /** Move `src` to `dest` and record it. */
+  move(src: string, dest: string): Promise<void>;
+  /**
+   * Copy `src` to `dest` (or with `kind`, link it there) and record it. A
+   * file already at `dest` is staged. Copies are checked against the source
+   * before they replace anything.
+   */
+  copy(src: string, dest: string, kind?: LinkKind): Promise<void>;
+  /** Stage `path` into the trash instead of unlinking it, and record it. */
+  remove(path: string): Promise<void>;
+  /** Replace `path` with a hard link, symlink or clone of `target`, staging the original. */
+  link(target: string, path: string, kind: LinkKind): Promise<void>;
+}
+
+/**
+ * Create a link or clone of `target` at `path`, which must not exist.
+ * Symlinks are relative so they survive moving the tree. Reflinks fall back
+ * to a plain copy where the filesystem can't share blocks.
+ */
+export async function createLink(target: string, path: string, kind: LinkKind) {
+  switch (kind) {
+    case "hardlink":
+      return fs.link(target, path);
+    case "symlink":
+      return fs.symlink(sp.relative(sp.dirname(path), target), path);
+    case "reflink":
+      return fs.copyFile(
+        target,
+        path,
+        constants.COPYFILE_FICLONE | constants.COPYFILE_EXCL
+      );
+  }
+}
+
+const exists = (path: string) =>
+  fs.access(path).then(
+    () => true,
+    () => false
+  );
+
+const createId = (operation: JournalOperation) => {
+  const stamp = new Date().toISOString().replace(/[-:.TZ]/g, "");
+  const rand = Math.random().toString(36).slice(2, 8);
+  return `${operation}-${stamp}-${rand}`;
+};
+
+/**
+ * Create the journal an operation records its moves and deletions into.
+ *
+ * The journal file is only created once something is recorded, so runs that
+ * change nothing leave no trace. When `enabled` is false the returned journal
+ * moves and unlinks directly, which lets operations use a single code path.
+ */
+export function createJournal(
+  operation: JournalOperation,
+  root: string,
+  enabled = true
+): Journal {
+  root = normalizePath(sp.resolve(root));
+  const id = createId(operation);
+  let written = false;
+
+  const record = async (entry: JournalEntry) => {
+    const file = journalFile(id);
+    if (!written) {
+      await fs.mkdir(sp.dirname(file), { recursive: true });
+      const header: JournalHeader = {
+        type: "header",
+        id,
+        operation,
+        root,
+        createdAt: new Date().toISOString(),
+      };
+      await fs.appendFile(file, JSON.stringify(header) + "\n");
+      written = true;
+    }
+    await fs.appendFile(file, JSON.stringify(entry) + "\n");
+  };
+
+  // Move `full` into this journal's trash and return where it went
+  const stage = async (full: string) => {
+    let rel = sp.relative(root, full);
+    if (rel.startsWith("..") || sp.isAbsolute(rel)) {
+      rel = sp.join("_external", sp.basename(full));
+    }
+    // The same path can be removed twice in one run (e.g. overwritten twice)
+    let staged = normalizePath(sp.join(trashDir(root, id), rel));
+    for (let n = 2; await exists(staged); n++) {
+      staged = normalizePath(sp.join(trashDir(root, id), `${rel}~${n}`));
+    }
+    await move(full, staged);
+    return staged;
+  };
+
+  return {
+    get id() {
+      return written ? id : undefined;
+    },
+
+    async move(src, dest) {
+      await move(src, dest);
+      if (!enabled) return;
+      await record({
+        type: "move",
+        src: normalizePath(src),
+        dest: normalizePath(dest),
+        at: new Date().toISOString(),
+      });
+    },
+
+    async copy(src, dest, kind) {
+      const full = normalizePath(sp.resolve(dest));
+      // Copy next to the destination first, so a failure leaves it alone
+      const tmp = `${full}.${id}.tmp`;
+      if (kind) {
+        await fs.mkdir(sp.dirname(full), { recursive: true });
+        await createLink(src, tmp, kind);
+      } else {
+        await copy(src, tmp);
+      }
+
+      try {
+        if (!kind && !(await sameContent(src, tmp))) {
+          throw new Error(`Copy of '${src}' doesn't match its source`);
+        }
+        if (!enabled || !(await exists(full))) {
+          await fs.rename(tmp, full);
+        } else {
+          const staged = await stage(full);
+          try {
+            await fs.rename(tmp, full);
+          } catch (err) {
+            await move(staged, full);
+            throw err;
+          }
+          await record({
+            type: "delete",
+            path: full,
+            staged,
+            at: new Date().toISOString(),
+          });
+        }
+      } catch (err) {
+        await fs.rm(tmp, { force: true });
+        throw err;
+      }
+
+      if (!enabled) return;
+      await record({
+        type: "copy",
+        src: normalizePath(sp.resolve(src)),
+        dest: full,
+        kind,
+        at: new Date().toISOString(),
+      });
+    },
+
+    async remove(path) {
+      if (!enabled) {
+        await fs.unlink(path);
+        return;
+      }
+
+      const full = normalizePath(sp.resolve(path));
+      const staged = await stage(full);
+      await record({
+        type: "delete",
+        path: full,
+        staged,
+        at: new Date().toISOString(),
+      });
+    },
+
+    async link(target, path, kind) {
+      // Build the link next to the file first, so a failure leaves it alone
+      const full = normalizePath(sp.resolve(path));
+      const tmp = `${full}.${id}.tmp`;
+      await createLink(target, tmp, kind);
+      try {
+        if (!enabled) {
+          await fs.rename(tmp, full);
+          return;
+        }
+        const staged = await stage(full);
+        try {
+          await fs.rename(tmp, full);
+        } catch (err) {
+          await move(staged, full);
+          throw err;
+        }
+        await record({
+          type: "link",
+          kind,
+          path: full,
+          target: normalizePath(sp.resolve(target)),
+          staged,
+          at: new Date().toISOString(),
+        });
+      } catch (err) {
+        await fs.rm(tmp, { force: true });
+        throw err;
+      }
+    },
+  };
+}
+
+export async function readJournal(
+  id: string
+): Promise<{ header: JournalHeader; entries: JournalEntry[] }> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(journalFile(id), "utf8");
+  } catch {
+    throw new Error(`Journal '${id}' not found in ${journalDir()}`);
+  }
+
+  const lines = raw
+    .split("\n")
+    .filter((l) => l.trim() !== "")
+    .map((l) => JSON.parse(l));
+
+  const [header, ...entries] = lines;
+  if (!header || header.type !== "header") {
+    throw new Error(`Journal '${id}' is corrupted (missing header)`);
+  }
+  return { header, entries };
+}
+
+export async function appendJournal(id: string, entry: JournalEntry) {
+  await fs.appendFile(journalFile(id), JSON.stringify(entry) + "\n");
+}
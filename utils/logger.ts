@@ -1,5 +1,5 @@
 import { formatSize } from "./helper";
-import { OperationStats } from "./types";
+import { OperationStats, TransferMode } from "./types";
 
 const RESET = "\x1b[0m";
 const BOLD = "\x1b[1m";
@@ -71,6 +71,21 @@ const log = {
     console.warn(`${colors.yellow}[WARN]${RESET} ${message}`);
   },
 
+  mismatch(file: string, ext: string, detected: string) {
+    console.warn(
+      `${colors.yellow}[Type]${RESET} ${DIM}${file}${RESET} ` +
+        `${ext ? `.${ext}` : "(no extension)"} ${ARROW} ` +
+        `${colors.cyan}${detected}${RESET}`
+    );
+  },
+
+  conflict(file: string, dest: string, resolution: string) {
+    console.log(
+      `${colors.magenta}[Conflict]${RESET} ${DIM}${file}${RESET} ${ARROW} ` +
+        `${dest} ${colors.gray}(${resolution})${RESET}`
+    );
+  },
+
   errorMessage(message: string) {
     console.error(`${colors.red}${BOLD}[Error]${RESET} ${message}`);
   },
@@ -105,6 +120,50 @@ const log = {
     );
   },
 
+  retained(file: string, tiers: string[]) {
+    console.log(
+      `${colors.blue}${BOLD}[Keep]${RESET} ${DIM}${file}${RESET} ` +
+        `${colors.gray}(${tiers.join(", ")})${RESET}`
+    );
+  },
+
+  linked(file: string, target: string, kind: string, dryRun = false) {
+    console.log(
+      (dryRun ? `${colors.yellow}${BOLD}[DryRun]${RESET} ` : "") +
+        `${colors.cyan}[${kind}]${RESET} ${DIM}${file}${RESET} ${ARROW} ` +
+        `${colors.magenta}${target}${RESET}`
+    );
+  },
+
+  copied(src: string, dest: string, dryRun = false) {
+    console.log(
+      (dryRun ? `${colors.yellow}${BOLD}[DryRun]${RESET} ` : "") +
+        `${colors.cyan}[Copy]${RESET} ${DIM}${src}${RESET} ${ARROW} ` +
+        `${colors.green}${dest}${RESET}`
+    );
+  },
+
+  placed(src: string, dest: string, mode: TransferMode, dryRun = false) {
+    if (mode === "copy") log.copied(src, dest, dryRun);
+    else if (mode === "hardlink") log.linked(dest, src, mode, dryRun);
+    else if (dryRun) log.dryRun(src, dest);
+    else log.success(src, dest);
+  },
+
+  similar(file: string, similarity: number) {
+    console.log(
+      `${colors.yellow}[Similar]${RESET} ${DIM}${file}${RESET} ` +
+        `${colors.gray}(${Math.round(similarity * 100)}%)${RESET}`
+    );
+  },
+
+  large(file: string, size: number) {
+    console.log(
+      `${colors.magenta}[Large]${RESET} ${DIM}${file}${RESET} ` +
+        `${colors.gray}(${formatSize(size)})${RESET}`
+    );
+  },
+
   dedupeSummary(files: number, savedBytes: number) {
     console.log(
       `${colors.brightGreen}${BOLD}[Done]${RESET} ` +
@@ -114,7 +173,7 @@ const log = {
   },
 
   // `${colors.yellow}${BOLD}${dest}${RESET}`
-  archive(src: string, dryRun=false) {
+  archive(src: string, dryRun = false) {
     if (dryRun) {
       console.log(
         `${colors.yellow}${BOLD}[DryRun]${RESET} ` +
@@ -0,0 +1,46 @@
+import * as sp from "node:path";
+import fs from "fs/promises";
+import { normalizePath } from "./helper";
+import { FM_DIR } from "./journal";
+import { ManifestEntry } from "./types";
+
+export function manifestFile(archivePath: string): string {
+  return normalizePath(sp.join(archivePath, FM_DIR, "manifest.jsonl"));
+}
+
+export async function appendManifest(
+  archivePath: string,
+  entry: ManifestEntry
+) {
+  const file = manifestFile(archivePath);
+  await fs.mkdir(sp.dirname(file), { recursive: true });
+  await fs.appendFile(file, JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Read the manifest of an archive folder. The manifest is append-only, so
+ * when a path inside the archive (or container) was reused, or an entry was
+ * updated, only its latest entry is kept.
+ *
+ * @returns Entries in the order they were archived
+ */
+export async function readManifest(
+  archivePath: string
+): Promise<ManifestEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(manifestFile(archivePath), "utf8");
+  } catch {
+    throw new Error(`No archive manifest in '${archivePath}'`);
+  }
+
+  const latest = new Map<string, ManifestEntry>();
+  for (const line of raw.split("\n")) {
+    if (line.trim() === "") continue;
+    const entry = JSON.parse(line) as ManifestEntry;
+    const key = `${entry.container ?? ""}#${entry.archived}`;
+    latest.delete(key);
+    latest.set(key, entry);
+  }
+  return [...latest.values()];
+}
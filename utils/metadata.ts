@@ -0,0 +1,296 @@
+import fs from "fs/promises";
+
+type FileHandle = fs.FileHandle;
+
+// EXIF tags holding dates, in order of preference
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+const TAG_DATE_TIME = 0x0132;
+
+// Seconds between 1904-01-01 (QuickTime epoch) and 1970-01-01
+const MAC_EPOCH_OFFSET = 2082844800;
+
+const JPEG_SCAN_BYTES = 256 * 1024;
+const BOX_HEADER = 16;
+
+async function readAt(handle: FileHandle, position: number, length: number) {
+  const buf = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buf, 0, length, position);
+  return buf.subarray(0, bytesRead);
+}
+
+/** Parse an EXIF "YYYY:MM:DD HH:MM:SS" timestamp as local wall-clock time. */
+function parseExifDate(text: string): Date | undefined {
+  const m = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(text);
+  if (!m) return undefined;
+  const [y, mo, d, h, mi, s] = m.slice(1).map(Number);
+  if (y < 1900 || mo < 1 || mo > 12 || d < 1 || d > 31) return undefined;
+  return new Date(y, mo - 1, d, h, mi, s);
+}
+
+/**
+ * Read the capture date from a TIFF structure (the payload of an EXIF block,
+ * or a TIFF-based raw file such as DNG/CR2/NEF).
+ */
+export function readTiffDate(tiff: Buffer): Date | undefined {
+  if (tiff.length < 8) return undefined;
+  const order = tiff.toString("latin1", 0, 2);
+  if (order !== "II" && order !== "MM") return undefined;
+  const le = order === "II";
+
+  const u16 = (o: number) => (le ? tiff.readUInt16LE(o) : tiff.readUInt16BE(o));
+  const u32 = (o: number) => (le ? tiff.readUInt32LE(o) : tiff.readUInt32BE(o));
+  if (u16(2) !== 42) return undefined;
+
+  // Map of tag -> value offset for one IFD
+  const readIfd = (offset: number) => {
+    const tags = new Map<number, { type: number; count: number; at: number }>();
+    if (offset + 2 > tiff.length) return tags;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) break;
+      tags.set(u16(entry), {
+        type: u16(entry + 2),
+        count: u32(entry + 4),
+        at: entry + 8,
+      });
+    }
+    return tags;
+  };
+
+  const asciiTag = (tag?: { type: number; count: number; at: number }) => {
+    if (!tag || tag.type !== 2) return undefined;
+    const start = tag.count > 4 ? u32(tag.at) : tag.at;
+    if (start + tag.count > tiff.length) return undefined;
+    return parseExifDate(tiff.toString("latin1", start, start + tag.count));
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  const exif = exifPointer ? readIfd(u32(exifPointer.at)) : new Map();
+
+  return (
+    asciiTag(exif.get(TAG_DATE_TIME_ORIGINAL)) ??
+    asciiTag(exif.get(TAG_DATE_TIME_DIGITIZED)) ??
+    asciiTag(ifd0.get(TAG_DATE_TIME))
+  );
+}
+
+/** Find the APP1 "Exif" segment of a JPEG and read its date. */
+export function readJpegDate(buf: Buffer): Date | undefined {
+  if (buf.length < 4 || buf[0] !== 0xff || buf[1] !== 0xd8) return undefined;
+
+  let offset = 2;
+  while (offset + 4 <= buf.length) {
+    if (buf[offset] !== 0xff) return undefined;
+    const marker = buf[offset + 1];
+    // Start of scan: image data follows, no more metadata
+    if (marker === 0xda || marker === 0xd9) return undefined;
+    const length = buf.readUInt16BE(offset + 2);
+
+    if (
+      marker === 0xe1 &&
+      buf.toString("latin1", offset + 4, offset + 10) === "Exif\0\0"
+    ) {
+      const start = offset + 10;
+      return readTiffDate(buf.subarray(start, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+}
+
+interface Box {
+  type: string;
+  /** Absolute offset of the payload. */
+  start: number;
+  /** Absolute offset just past the box. */
+  end: number;
+}
+
+/** Iterate ISO-BMFF boxes between `from` and `to` by reading their headers only. */
+async function* boxes(
+  handle: FileHandle,
+  from: number,
+  to: number
+): AsyncGenerator<Box> {
+  let offset = from;
+  while (offset + 8 <= to) {
+    const head = await readAt(handle, offset, BOX_HEADER);
+    if (head.length < 8) return;
+
+    let size = head.readUInt32BE(0);
+    const type = head.toString("latin1", 4, 8);
+    let header = 8;
+    if (size === 1) {
+      if (head.length < 16) return;
+      size = Number(head.readBigUInt64BE(8));
+      header = 16;
+    } else if (size === 0) {
+      size = to - offset;
+    }
+    if (size < header) return;
+
+    yield { type, start: offset + header, end: Math.min(offset + size, to) };
+    offset += size;
+  }
+}
+
+async function findBox(
+  handle: FileHandle,
+  from: number,
+  to: number,
+  type: string
+): Promise<Box | undefined> {
+  for await (const box of boxes(handle, from, to)) {
+    if (box.type === type) return box;
+  }
+  return undefined;
+}
+
+/** MP4 / MOV: creation time from moov/mvhd (seconds since 1904, UTC). */
+async function readMovieDate(
+  handle: FileHandle,
+  size: number
+): Promise<Date | undefined> {
+  const moov = await findBox(handle, 0, size, "moov");
+  if (!moov) return undefined;
+  const mvhd = await findBox(handle, moov.start, moov.end, "mvhd");
+  if (!mvhd) return undefined;
+
+  const body = await readAt(handle, mvhd.start, 12);
+  if (body.length < 8) return undefined;
+  const version = body[0];
+  const seconds =
+    version === 1 && body.length >= 12
+      ? Number(body.readBigUInt64BE(4))
+      : body.readUInt32BE(4);
+  if (seconds === 0) return undefined;
+
+  const date = new Date((seconds - MAC_EPOCH_OFFSET) * 1000);
+  return date.getFullYear() < 1971 ? undefined : date;
+}
+
+/** HEIC / AVIF: locate the "Exif" item through meta/iinf + meta/iloc. */
+async function readHeifDate(
+  handle: FileHandle,
+  size: number
+): Promise<Date | undefined> {
+  const meta = await findBox(handle, 0, size, "meta");
+  if (!meta) return undefined;
+  // meta is a full box: skip version + flags
+  const metaStart = meta.start + 4;
+
+  const iinf = await findBox(handle, metaStart, meta.end, "iinf");
+  const iloc = await findBox(handle, metaStart, meta.end, "iloc");
+  if (!iinf || !iloc) return undefined;
+
+  // iinf: find the item id whose type is "Exif"
+  const info = await readAt(handle, iinf.start, iinf.end - iinf.start);
+  const infoVersion = info[0];
+  let cursor = infoVersion === 0 ? 6 : 8;
+  let exifId: number | undefined;
+  while (cursor + 8 <= info.length && exifId === undefined) {
+    const boxSize = info.readUInt32BE(cursor);
+    if (boxSize < 8) break;
+    if (info.toString("latin1", cursor + 4, cursor + 8) === "infe") {
+      const v = info[cursor + 8];
+      const body = cursor + 12;
+      if (v >= 2) {
+        const id = v === 2 ? info.readUInt16BE(body) : info.readUInt32BE(body);
+        const typeAt = body + (v === 2 ? 2 : 4) + 2;
+        if (info.toString("latin1", typeAt, typeAt + 4) === "Exif") exifId = id;
+      }
+    }
+    cursor += boxSize;
+  }
+  if (exifId === undefined) return undefined;
+
+  // iloc: find where that item's bytes live
+  const loc = await readAt(handle, iloc.start, iloc.end - iloc.start);
+  const version = loc[0];
+  const offsetSize = loc[4] >> 4;
+  const lengthSize = loc[4] & 0x0f;
+  const baseOffsetSize = loc[5] >> 4;
+  const indexSize = version === 1 || version === 2 ? loc[5] & 0x0f : 0;
+  let p = 6;
+
+  const readN = (n: number) => {
+    let value = 0;
+    for (let i = 0; i < n; i++) value = value * 256 + loc[p + i];
+    p += n;
+    return value;
+  };
+
+  const itemCount = version < 2 ? readN(2) : readN(4);
+  for (let i = 0; i < itemCount && p < loc.length; i++) {
+    const id = version < 2 ? readN(2) : readN(4);
+    if (version === 1 || version === 2) readN(2); // construction method
+    readN(2); // data reference index
+    const base = readN(baseOffsetSize);
+    const extents = readN(2);
+
+    let start = -1;
+    let length = 0;
+    for (let e = 0; e < extents; e++) {
+      readN(indexSize);
+      const extOffset = readN(offsetSize);
+      const extLength = readN(lengthSize);
+      if (e === 0) {
+        start = base + extOffset;
+        length = extLength;
+      }
+    }
+
+    if (id === exifId && start >= 0) {
+      const item = await readAt(handle, start, length || 64 * 1024);
+      if (item.length < 4) return undefined;
+      // Item data starts with the offset of the TIFF header
+      const tiffStart = 4 + item.readUInt32BE(0);
+      const payload = item.subarray(tiffStart);
+      const tiff =
+        payload.toString("latin1", 0, 6) === "Exif\0\0"
+          ? payload.subarray(6)
+          : payload;
+      return readTiffDate(tiff);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read when a photo or video was taken from its embedded metadata.
+ *
+ * Supports JPEG EXIF, TIFF-based raw files, HEIC/AVIF EXIF items and
+ * MP4/MOV `mvhd` creation time. Only headers and metadata boxes are read.
+ *
+ * @param path - File to inspect
+ * @returns The capture date, or undefined when the file carries none
+ */
+export async function readCaptureDate(path: string): Promise<Date | undefined> {
+  const handle = await fs.open(path, "r");
+  try {
+    const { size } = await handle.stat();
+    const head = await readAt(handle, 0, Math.min(size, JPEG_SCAN_BYTES));
+    if (head.length < 12) return undefined;
+
+    if (head[0] === 0xff && head[1] === 0xd8) return readJpegDate(head);
+
+    const order = head.toString("latin1", 0, 2);
+    if (order === "II" || order === "MM") return readTiffDate(head);
+
+    if (head.toString("latin1", 4, 8) === "ftyp") {
+      const brand = head.toString("latin1", 8, 12);
+      if (["heic", "heix", "mif1", "msf1", "avif", "avis"].includes(brand)) {
+        return await readHeifDate(handle, size);
+      }
+      return await readMovieDate(handle, size);
+    }
+
+    return undefined;
+  } finally {
+    await handle.close();
+  }
+}
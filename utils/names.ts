@@ -72,3 +72,22 @@ export const mediaTypes: MediaRules = {
 
   // others: [], --> Auto added in plan builder
 };
+
+// Folders used by arrange's `groupBy: "date"` mode for camera output
+export const captureTypes: MediaRules = {
+  Photos: [
+    "jpg",
+    "jpeg",
+    "heic",
+    "heif",
+    "avif",
+    "png",
+    "webp",
+    "tiff",
+    "dng",
+    "cr2",
+    "nef",
+    "arw",
+  ],
+  Videos: ["mp4", "mov", "m4v", "3gp"],
+};
@@ -0,0 +1,24 @@
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight, keeping
+ * the results in input order. Rejects with the first error a worker throws.
+ */
+export async function mapLimit<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run)
+  );
+  return results;
+}
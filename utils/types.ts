@@ -5,6 +5,13 @@ export type FileNode = {
   size: number;
   dir: string;
   mtime?: Date;
+  atime?: Date;
+  /** Creation time; equals the Unix epoch where the filesystem doesn't record it. */
+  birthtime?: Date;
+  /** Last inode (metadata) change. */
+  ctime?: Date;
+  /** Inode number; 0 where the platform has none. */
+  ino?: number;
 };
 
 export type OperationStats = {
@@ -12,6 +19,13 @@ export type OperationStats = {
   moved: number;
   skipped: number;
   errors: FileError[];
+  journalId?: string;
+  /** Files whose extension disagrees with their content (arrange `detectType`). */
+  mismatches?: TypeMismatch[];
+  /** Files whose destination already existed, and how that was resolved. */
+  conflicts?: ConflictRecord[];
+  /** Photos and videos without a capture date, filed by mtime (arrange `groupBy: "date"`). */
+  undated?: string[];
 };
 
 export type MediaRules = Record<string, readonly string[]>;
@@ -26,13 +40,107 @@ export interface WalkResult {
   errors: FileError[];
 }
 
-export type ConflictStrategy = "rename" | "overwrite" | "skip";
+/** Running totals reported while a tree is being scanned */
+export interface ScanProgress {
+  /** The root being walked */
+  root: string;
+  /** Folders read so far */
+  dirs: number;
+  /** Files seen so far */
+  files: number;
+  /** Total size of the files seen so far */
+  bytes: number;
+  /** True on the last report of a walk */
+  done: boolean;
+}
+
+/** Progress and cancellation shared by every operation that scans a tree */
+export interface StreamOptions {
+  /** Called with running totals while scanning (at most every 100ms, plus once at the end) */
+  onProgress?: (progress: ScanProgress) => void;
+  /** Stop the scan early; the operation rejects once the signal is aborted */
+  signal?: AbortSignal;
+}
+
+export interface WalkOptions extends StreamOptions {
+  /** How many levels below the root to descend (0 = unlimited) */
+  depth?: number;
+  /** Level the root counts as (used with `depth`) */
+  level?: number;
+  /**
+   * Return true to leave an entry out. Skipped folders are pruned: they are
+   * never read.
+   */
+  skip?: (fullPath: string, isDir: boolean) => boolean;
+  /** Maximum files stat'ed at once (default 16) */
+  concurrency?: number;
+  /** Called for every entry that couldn't be read */
+  onError?: (error: FileError) => void;
+}
+
+export type ConflictStrategy =
+  | "rename" // Keep both, renaming the incoming file
+  | "overwrite" // Replace the existing file
+  | "skip" // Leave the incoming file where it is
+  | "keep-newer" // Replace only if the incoming file is newer
+  | "keep-larger"; // Replace only if the incoming file is larger
+
+/** What happened to a file whose destination was taken. */
+export type ConflictResolution =
+  | "renamed"
+  | "overwritten"
+  | "skipped"
+  | "identical"; // Same content already there: counted as moved, source removed
+
+export interface ConflictRecord {
+  file: string;
+  /** Where the file went (or would have gone, when skipped). */
+  dest: string;
+  resolution: ConflictResolution;
+}
+
+/** Shared by every operation that moves files into place. */
+export interface ConflictOptions {
+  /** What to do when the destination already exists. Default "rename". */
+  conflict?: ConflictStrategy;
+  /** Suffix added before the extension when renaming; must contain {n}. Default "-({n})". */
+  renamePattern?: string;
+  /** When the destination has identical content, treat the file as already moved. */
+  checkIdentical?: boolean;
+}
+
+/**
+ * Shared by every operation that scans a tree. Patterns follow .gitignore:
+ * `*`, `?`, `**`, `[a-z]`, `{a,b}`; no `/` matches the name at any depth, a
+ * `/` anchors to the root, a trailing `/` matches folders only, and a later
+ * `!pattern` re-includes what an earlier one excluded. Excluded folders are
+ * never read.
+ */
+export interface FilterOptions {
+  /** Patterns relative to the root for files and folders to leave alone. */
+  exclude?: string[];
+  /** A .gitignore-style file whose patterns apply before `exclude`. */
+  ignoreFile?: string;
+}
 
 export type DeleteEmptyDirsResult = {
   deleted: number;
   skipped: number;
 };
 
+/** How a file can be replaced by a reference to another file's content. */
+export type LinkKind = "hardlink" | "symlink" | "reflink";
+
+/** What `dedupe()` does with each duplicate. */
+export type DedupeAction = "delete" | LinkKind | "quarantine";
+
+export interface DuplicateFile extends FileNode {
+  /** What was done (or, in a dry run, would be done); "failed" when it errored. */
+  action: DedupeAction | "failed";
+  /** Quarantine location, or the file a link / clone points to. */
+  dest?: string;
+}
+
 export type DedupeStrategy =
   | "canonical" // Keep file matching canonical path
   | "oldest" // Keep oldest file by modification time
@@ -41,15 +149,58 @@ export type DedupeStrategy =
   | "longest-path" // Keep file with longest path
   | "first"; // Keep first file encountered
 
-export interface DedupeOptions {
+/** Strategies for `findSimilarImages()`: the dedupe ones plus the biggest picture. */
+export type SimilarStrategy = DedupeStrategy | "highest-resolution";
+
+/** One kept file and the files found to be copies of it. */
+export interface DuplicateGroup<
+  T extends FileNode = DuplicateFile,
+  C extends FileNode = FileNode
+> {
+  /** Content hash, or the kept image's perceptual hash. */
+  hash: string;
+  canonical: C;
+  duplicates: T[];
+  spaceSaved: number;
+}
+
+export interface DedupeOptions extends FilterOptions, StreamOptions {
   strategy?: DedupeStrategy;
   canonicalPath?: string;
   dryRun?: boolean;
+  /** @deprecated Use `exclude`; the patterns are applied the same way. */
   ignorePatterns?: string[];
   onDuplicate?: (canonical: FileNode, duplicates: FileNode[]) => void;
   onError?: (file: FileNode, error: Error) => void;
   log?: boolean;
   deleteEmpty?: boolean;
+  journal?: boolean;
+  /** Any algorithm `crypto.createHash` accepts. Default "sha256". */
+  algorithm?: string;
+  /** Files hashed at the same time. Default 4. */
+  concurrency?: number;
+  /** JSON file that keeps hashes between runs, so unchanged files aren't read again. */
+  cacheFile?: string;
+  /** What to do with duplicates. Default "delete". */
+  action?: DedupeAction;
+  /** Folder duplicates are moved into with action "quarantine". Default `<root>/.fm/quarantine`. */
+  quarantinePath?: string;
+}
+
+/** Where `dedupe()` spent its time and how much reading the staging saved. */
+export interface DedupeMetrics {
+  durationMs: number;
+  /** Files ruled out by size alone, never read. */
+  uniqueSize: number;
+  /** Files whose first and last 64 KB were hashed. */
+  partialHashes: number;
+  /** Files hashed in full. */
+  fullHashes: number;
+  /** Hashes taken from `cacheFile` instead of reading the file. */
+  cacheHits: number;
+  bytesHashed: number;
+  /** Bytes hashing every same-size file in full would have read on top. */
+  bytesSkipped: number;
 }
 
 export interface DedupeResult {
@@ -58,40 +209,143 @@ export interface DedupeResult {
   filesDeleted: number;
   spaceSaved: number;
   errors: FileError[];
-  groups: Array<{
-    hash: string;
-    canonical: FileNode;
-    duplicates: FileNode[];
-    spaceSaved: number;
-  }>;
+  journalId?: string;
+  groups: DuplicateGroup[];
+  metrics: DedupeMetrics;
+}
+
+export interface DedupeAgainstResult extends DedupeResult {
+  /** Files found in the reference trees. */
+  referenceFiles: number;
+}
+
+export interface SimilarImage extends FileNode {
+  width: number;
+  height: number;
+  /** 64-bit difference hash as 16 hex digits. */
+  phash: string;
+  /** 1 - Hamming distance / 64 to the kept image (1 for the kept image itself). */
+  similarity: number;
+}
+
+export interface SimilarImagesOptions extends FilterOptions {
+  /** Most bits two hashes may differ by to count as the same picture (0-64). Default 10. */
+  threshold?: number;
+  strategy?: SimilarStrategy;
+  canonicalPath?: string;
+  /** Images read and decoded at the same time. Default 4. */
+  concurrency?: number;
+  log?: boolean;
+  onGroup?: (canonical: SimilarImage, similar: SimilarImage[]) => void;
+  onError?: (file: FileNode, error: Error) => void;
+}
+
+export interface SimilarImagesResult {
+  /** PNG and JPEG files found. */
+  scannedFiles: number;
+  /** Images in a format the decoder can't read (e.g. progressive JPEG). */
+  unsupported: string[];
+  duplicateGroups: number;
+  /** Bytes the similar copies take up. */
+  spaceSaved: number;
+  errors: FileError[];
+  groups: DuplicateGroup<SimilarImage, SimilarImage>[];
 }
 
-export interface ArrangeOptions {
-  rules?: MediaRules;
+/**
+ * Declarative arrange rule. Every condition that is set must match; a rule
+ * without conditions matches every file.
+ */
+export interface ArrangeRule {
+  /** Label used in logs and conflict errors. */
+  name?: string;
+  /**
+   * Destination folder, relative to the arranged root. Supports the tokens
+   * {category} {ext} {name} {dir} {yyyy} {mm} {dd}.
+   */
+  dest: string;
+  /** Extensions without the dot. */
+  ext?: string | readonly string[];
+  /** Glob(s) matched against the file name, or the relative path if they contain `/`. */
+  pattern?: string | readonly string[];
+  /** Regular expression tested against the file name. */
+  regex?: string | RegExp;
+  /** Bytes or a size string such as "10MB". */
+  minSize?: number | string;
+  maxSize?: number | string;
+  /** Age by modification time. */
+  olderThanDays?: number;
+  newerThanDays?: number;
+  /** Glob(s) for the source folder relative to the root ("" is the root itself). */
+  dir?: string | readonly string[];
+  /** Higher priorities are tried first. Default 0. */
+  priority?: number;
+}
+
+/** How `arrange` and `flatten` put each file at its destination. */
+export type TransferMode = "move" | "copy" | "hardlink";
+
+/** Shared by the operations that can build their result outside the tree. */
+export interface OutputOptions {
+  /** Folder to build the result in instead of the tree itself. Created if missing. */
+  output?: string;
+  /**
+   * "move" (default) takes files out of the tree. "copy" (verified against
+   * the source, mtime kept) and "hardlink" (same filesystem only) leave the
+   * tree untouched.
+   */
+  mode?: TransferMode;
+}
+
+export interface ArrangeOptions
+  extends ConflictOptions,
+    FilterOptions,
+    OutputOptions {
+  /** Extension → folder map, or a list of rules tried before the default categories. */
+  rules?: MediaRules | ArrangeRule[];
   dryRun?: boolean;
   onMove?: (
     move: { file: string; dest: string },
     stats: OperationStats
   ) => void;
   log?: boolean;
+  journal?: boolean;
+  /** Sniff magic bytes to route files with a missing or wrong extension. */
+  detectType?: boolean;
+  /**
+   * "type" (default) files by category. "date" files photos and videos by
+   * capture date (EXIF / container metadata, falling back to mtime).
+   */
+  groupBy?: "type" | "date";
+  /** Sub-folder template below Photos/ and Videos/ in "date" mode. Default "{yyyy}/{yyyy}-{mm}-{dd}". */
+  dateFolder?: string;
+  /** Also arrange files in sub-folders (category folders are never scanned). */
+  recursive?: boolean;
+  /** With `recursive`, how many folder levels to descend (0 = unlimited). */
+  depth?: number;
 }
 
-export interface FlattenOpts {
+export interface FlattenOpts
+  extends ConflictOptions,
+    FilterOptions,
+    StreamOptions,
+    OutputOptions {
   depth?: number;
   dryRun?: boolean;
-  conflict?: ConflictStrategy;
   level?: number;
   deleteEmpty?: boolean;
   log?: boolean;
+  journal?: boolean;
 }
 
-export interface FindEmptyOptions {
+export interface FindEmptyOptions extends FilterOptions, StreamOptions {
   deleteEmpty?: boolean;
   dryRun?: boolean;
   onEmptyFile?: (file: string, deleted: boolean) => void;
   onError?: (file: string, error: Error) => void;
   getFiles?: boolean;
   log?: boolean;
+  journal?: boolean;
 }
 
 export interface FinderState {
@@ -99,6 +353,7 @@ export interface FinderState {
   deleted: number;
   errors: FileError[];
   empty: number;
+  journalId?: string;
   files: Pick<FileNode, "fullPath" | "dir" | "size">[];
 }
 
@@ -107,12 +362,473 @@ export interface ArchiveResult {
   archived: number;
   archivedSize: string;
   errors: FileError[];
+  journalId?: string;
+  conflicts?: ConflictRecord[];
+  /** Container written by this run (`format` other than "directory"). */
+  container?: string;
+}
+
+export type ContainerFormat = "zip" | "tar" | "tar.gz";
+
+/** A file stored in a zip / tar container. */
+export interface ArchiveEntry {
+  /** Path inside the container, using `/`. */
+  path: string;
+  size: number;
+  mtime: Date;
+  /** Stored size (zip only). */
+  compressedSize?: number;
 }
 
-export interface ArchiveOptions {
+export interface ExtractOptions {
+  /** Globs matched against entry paths; default extracts everything. */
+  include?: string[];
+  /** Replace files that already exist instead of skipping them. */
+  overwrite?: boolean;
+  dryRun?: boolean;
+  log?: boolean;
+}
+
+export interface ExtractResult {
+  extracted: number;
+  skipped: number;
+  errors: FileError[];
+}
+
+/** Timestamp `archive()` measures a file's age by. */
+export type ArchiveCriterion = "mtime" | "atime" | "birthtime";
+
+export interface ArchiveOptions
+  extends ConflictOptions,
+    FilterOptions,
+    StreamOptions {
   durationDays: number;
   archivePath: string;
+  /** Timestamp compared with `durationDays`. Default "mtime". */
+  criterion?: ArchiveCriterion;
+  /** Bytes or a size string such as "10MB". */
+  minSize?: number | string;
+  maxSize?: number | string;
+  /** Globs relative to the root; only matching files are archived. */
+  include?: string[];
+  /** Always leave the N newest files (by `criterion`) of each folder in place. */
+  keepNewest?: number;
+  /** Mirror each file's path relative to the root under `archivePath` instead of archiving flat. */
+  preserveStructure?: boolean;
+  /** "directory" (default) moves files; the others stream them into one new container in `archivePath`. */
+  format?: "directory" | ContainerFormat;
   dryRun?: boolean;
   onArchive?: (file: string, dest: string) => void;
   log?: boolean;
-}
\ No newline at end of file
+  journal?: boolean;
+}
+export type JournalOperation =
+  | "arrange"
+  | "flatten"
+  | "archive"
+  | "restore"
+  | "retention"
+  | "dedupe"
+  | "empty"
+  | "large"
+  | "sync";
+
+export interface JournalHeader {
+  type: "header";
+  id: string;
+  operation: JournalOperation;
+  root: string;
+  createdAt: string;
+}
+
+export type JournalEntry =
+  | { type: "move"; src: string; dest: string; at: string }
+  | { type: "delete"; path: string; staged: string; at: string }
+  /** `dest` was created as a copy of `src` or, with `kind`, a link to it. */
+  | { type: "copy"; src: string; dest: string; kind?: LinkKind; at: string }
+  | {
+      /** `path` was staged and replaced by a link or clone of `target`. */
+      type: "link";
+      kind: LinkKind;
+      path: string;
+      target: string;
+      staged: string;
+      at: string;
+    }
+  | { type: "reverted"; at: string };
+
+export interface JournalInfo {
+  id: string;
+  operation: JournalOperation;
+  root: string;
+  createdAt: string;
+  entries: number;
+  reverted: boolean;
+}
+
+export interface RevertOptions {
+  dryRun?: boolean;
+  log?: boolean;
+  onRevert?: (move: { file: string; dest: string }) => void;
+}
+
+/** One archived file, as recorded in `<archivePath>/.fm/manifest.jsonl`. */
+export interface ManifestEntry {
+  /** Absolute path the file was archived from. */
+  original: string;
+  /** Path inside the archive, relative to `archivePath`. */
+  archived: string;
+  size: number;
+  /** ISO timestamps. */
+  mtime: string;
+  archivedAt: string;
+  journalId?: string;
+  /** Container holding the file, relative to `archivePath`; `archived` is then the path inside it. */
+  container?: string;
+  /** Set once `restore()` extracted a file from its container. */
+  restoredAt?: string;
+}
+
+export interface RestoreOptions extends ConflictOptions {
+  /** Globs matched against paths inside the archive; default restores everything. */
+  include?: string[];
+  dryRun?: boolean;
+  log?: boolean;
+  journal?: boolean;
+  onRestore?: (file: string, dest: string) => void;
+}
+
+export interface RestoreResult {
+  /** Manifest entries whose file is still in the archive. */
+  scanned: number;
+  restored: number;
+  skipped: number;
+  errors: FileError[];
+  conflicts?: ConflictRecord[];
+  journalId?: string;
+}
+
+/** Why `retention()` kept a file. */
+export type RetentionTier = "last" | "daily" | "weekly" | "monthly" | "yearly";
+
+export interface RetentionPolicy extends FilterOptions {
+  /** Keep the newest file of each day, for this many days. */
+  daily?: number;
+  /** Keep the newest file of each ISO week, for this many weeks. */
+  weekly?: number;
+  /** Keep the newest file of each calendar month, for this many months. */
+  monthly?: number;
+  /** Keep the newest file of each year, for this many years. */
+  yearly?: number;
+  /** Always keep the N newest files of each folder. */
+  keepLast?: number;
+  /** "mtime" (default), or a date in the file name such as db-2024-05-01.sql.gz (falls back to mtime). */
+  dateFrom?: "mtime" | "name";
+  /** Globs relative to the root; only matching files are rotated. */
+  include?: string[];
+  dryRun?: boolean;
+  log?: boolean;
+  journal?: boolean;
+  onDelete?: (file: string) => void;
+}
+
+export interface RetentionResult {
+  scanned: number;
+  kept: number;
+  deleted: number;
+  /** Total size deleted (formatted). */
+  deletedSize: string;
+  errors: FileError[];
+  journalId?: string;
+}
+
+export interface UsageOptions extends FilterOptions, StreamOptions {
+  /** Extension → category map merged over the default `mediaTypes`; rule lists keep the defaults */
+  rules?: MediaRules | ArrangeRule[];
+  /** How many of the largest folders to report (default 10) */
+  top?: number;
+}
+
+/** Size and file count of one folder, including everything below it */
+export interface UsageNode {
+  /** Path relative to the analyzed root ("" for the root itself) */
+  path: string;
+  name: string;
+  size: number;
+  files: number;
+  /** Files directly in this folder */
+  ownFiles: number;
+  /** Subfolders, largest first */
+  children: UsageNode[];
+}
+
+/** Total of one category or extension */
+export interface UsageShare {
+  name: string;
+  size: number;
+  files: number;
+}
+
+export interface UsageReport {
+  root: string;
+  size: number;
+  files: number;
+  /** Folders holding at least one file, the root included */
+  dirs: number;
+  tree: UsageNode;
+  /** Largest first; files no category claims are counted as "others" */
+  byCategory: UsageShare[];
+  /** Largest first, without the dot; "" for files with no extension */
+  byExtension: UsageShare[];
+  /** The `top` largest folders at any depth, the root excluded */
+  largestDirs: Omit<UsageNode, "children">[];
+  errors: FileError[];
+}
+
+export type UsageFormat = "text" | "json" | "html";
+
+export interface UsageFormatOptions {
+  /** Levels of the tree to expand (default 3); deeper folders are folded into their parent */
+  depth?: number;
+  /** Subfolders listed per folder (default 10); the rest are summed up on one line */
+  limit?: number;
+}
+
+export type LargeFileAction = "archive" | "move" | "delete";
+
+export interface FindLargeOptions
+  extends ConflictOptions,
+    FilterOptions,
+    StreamOptions {
+  /** Smallest size reported: bytes or a string such as "1.5GB". Default "500MB". */
+  minSize?: number | string;
+  /** Largest size reported. Default unlimited. */
+  maxSize?: number | string;
+  /** @deprecated Use `minSize` */
+  minSizeMB?: number;
+  /** How many of the largest files to report. Default 10. */
+  limit?: number;
+  /** Only files with these extensions */
+  ext?: string[];
+  /** Only files in these categories (`mediaTypes` folders, or "others") */
+  categories?: string[];
+  /** Extension → category map merged over `mediaTypes`, as for arrange */
+  rules?: MediaRules | ArrangeRule[];
+  /** Only files whose `criterion` time is at least this many days old */
+  olderThanDays?: number;
+  /** Only files whose `criterion` time is less than this many days old */
+  newerThanDays?: number;
+  /** Timestamp the age filters compare. Default "mtime". */
+  criterion?: ArchiveCriterion;
+  /** Also total every match per folder */
+  groupBy?: "dir";
+  /** What to do with the reported files. Default none (report only). */
+  action?: LargeFileAction;
+  /** Folder "move" and "archive" send files to */
+  dest?: string;
+  dryRun?: boolean;
+  log?: boolean;
+  journal?: boolean;
+  /** Called for every file that matches, before the top `limit` are picked */
+  onMatch?: (file: LargeFile) => void;
+  /** Called after `action` was applied to a file (`dest` is undefined for "delete") */
+  onAction?: (file: string, dest?: string) => void;
+  onError?: (file: string, error: Error) => void;
+}
+
+export interface LargeFile {
+  path: string;
+  /** Human-readable size, e.g. "1.5 GB" */
+  sizeMB: string;
+  sizeBytes: number;
+}
+
+/** Matches of one folder (the files directly in it) */
+export interface LargeDirGroup {
+  path: string;
+  files: number;
+  sizeMB: string;
+  sizeBytes: number;
+}
+
+export interface LargeFinderState {
+  limit: number;
+  /** Every file that passed the filters, not just the `limit` reported */
+  matched: number;
+  /** Total size of every match */
+  matchedBytes: number;
+  errors: FileError[];
+  /** The `limit` largest matches, largest first */
+  filesPath: LargeFile[];
+  /** With `groupBy: "dir"`: folders holding matches, largest total first */
+  groups?: LargeDirGroup[];
+  /** Files `action` was applied to (or would be, in a dry run) */
+  processed: number;
+  conflicts?: ConflictRecord[];
+  journalId?: string;
+}
+
+/** One file of a snapshot */
+export interface SnapshotEntry {
+  /** Path relative to the snapshot root, with forward slashes */
+  path: string;
+  size: number;
+  mtimeMs: number;
+  /** Content digest, when the snapshot was taken with `hash` */
+  hash?: string;
+}
+
+export interface Snapshot {
+  version: number;
+  /** Real path of the folder the snapshot was taken of */
+  root: string;
+  createdAt: string;
+  /** Hash algorithm of the entries' `hash`, when hashed */
+  algorithm?: string;
+  /** Sorted by path */
+  files: SnapshotEntry[];
+}
+
+export interface SnapshotOptions extends FilterOptions, StreamOptions {
+  /**
+   * File to write the snapshot to. Default `<root>/.fm/snapshots/<timestamp>.json`;
+   * `false` keeps it in memory only.
+   */
+  output?: string | false;
+  /** Record a content hash of every file, so moves and renames can be told apart */
+  hash?: boolean;
+  /** Hash algorithm (default "sha256") */
+  algorithm?: string;
+  /** Files hashed at the same time (default 4) */
+  concurrency?: number;
+  /**
+   * An earlier snapshot of the same root (or its file): hashes of files whose
+   * size and mtime haven't changed are taken from it instead of read again
+   */
+  previous?: Snapshot | string;
+  log?: boolean;
+  onError?: (file: string, error: Error) => void;
+}
+
+export interface SnapshotResult {
+  snapshot: Snapshot;
+  /** Where the snapshot was written */
+  file?: string;
+  /** Hashes taken from `previous` rather than computed */
+  reused: number;
+  errors: FileError[];
+}
+
+export interface SnapshotChange {
+  path: string;
+  before: SnapshotEntry;
+  after: SnapshotEntry;
+  /** after.size - before.size */
+  sizeDelta: number;
+}
+
+export interface SnapshotMove {
+  from: string;
+  to: string;
+  entry: SnapshotEntry;
+}
+
+export interface SnapshotDiff {
+  added: SnapshotEntry[];
+  removed: SnapshotEntry[];
+  /** Files whose content changed and that got bigger */
+  grown: SnapshotChange[];
+  /** Files whose content changed without growing */
+  modified: SnapshotChange[];
+  /** Same content under another path (needs hashes in both snapshots) */
+  moved: SnapshotMove[];
+  unchanged: number;
+  /** Total size of `b` minus total size of `a` */
+  sizeDelta: number;
+}
+
+export interface SyncOptions
+  extends ConflictOptions,
+    FilterOptions,
+    StreamOptions {
+  /** Remove target files the source doesn't have (staged in the journal). Default false. */
+  delete?: boolean;
+  /** Compare files by content hash instead of size and mtime. Default false. */
+  checksum?: boolean;
+  /** Hash algorithm for `checksum` (default "sha256") */
+  algorithm?: string;
+  dryRun?: boolean;
+  log?: boolean;
+  journal?: boolean;
+  onCopy?: (file: string, dest: string) => void;
+  onDelete?: (file: string) => void;
+  onError?: (file: string, error: Error) => void;
+}
+
+/** `moved` counts files copied into the target; `skipped` those left as they were. */
+export interface SyncStats extends OperationStats {
+  /** Copied because the target didn't have them */
+  added: number;
+  /** Copied over a target file that differed */
+  updated: number;
+  /** Target files removed with `delete` */
+  deleted: number;
+  /** Already the same on both sides */
+  unchanged: number;
+  bytesCopied: number;
+}
+
+/** Shape of `.fmrc` / `fm.config.json` files. */
+export interface FmConfig {
+  /** Stop looking for config files in parent directories. */
+  root?: boolean;
+  arrange?: Omit<ArrangeOptions, "onMove">;
+  flatten?: Omit<FlattenOpts, keyof StreamOptions>;
+  dedupe?: Omit<DedupeOptions, "onDuplicate" | "onError" | keyof StreamOptions>;
+  empty?: Omit<
+    FindEmptyOptions,
+    "onEmptyFile" | "onError" | keyof StreamOptions
+  >;
+  large?: Omit<
+    FindLargeOptions,
+    "onMatch" | "onAction" | "onError" | keyof StreamOptions
+  >;
+  archive?: Partial<Omit<ArchiveOptions, "onArchive" | keyof StreamOptions>>;
+  retention?: Omit<RetentionPolicy, "onDelete">;
+  similar?: Omit<SimilarImagesOptions, "onGroup" | "onError">;
+  usage?: Omit<UsageOptions, keyof StreamOptions>;
+  sync?: Omit<
+    SyncOptions,
+    "onCopy" | "onDelete" | "onError" | keyof StreamOptions
+  >;
+}
+
+export interface WatchArrangeOptions
+  extends Omit<ArrangeOptions, "recursive" | "depth" | keyof OutputOptions> {
+  /** How long (ms) a file's size and mtime must stay unchanged before it is moved. Default 1000. */
+  settleMs?: number;
+  /** Arrange the files already in the folder when the watcher starts. Default false. */
+  initial?: boolean;
+}
+
+export type WatchEvent = {
+  file: string;
+  dest?: string;
+  reason?: string;
+  error?: string;
+};
+
+/** Result of magic-byte detection. */
+export interface FileType {
+  ext: string;
+  /** Other extensions that are fine for this content (jpeg for jpg, docx for zip...). */
+  also: readonly string[];
+}
+
+export interface TypeMismatch {
+  file: string;
+  /** Extension of the file name ("" when it has none). */
+  ext: string;
+  /** Extension matching the content. */
+  detected: string;
+}